@@ -0,0 +1,69 @@
+/**
+ * Budget API
+ * 有料APIの日次・月次・キャンペーン別の呼び出し回数と推定費用の確認、上限の設定
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { budgetManager, validateLimits } from '@/lib/services/budgetManager'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const campaignId = searchParams.get('campaignId') ?? undefined
+    const manager = budgetManager()
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...await manager.getSnapshot(),
+      // キャンペーン指定時はそのキャンペーンの上限も含めた停止理由
+      ...(campaignId && { campaignId, pausedReason: await manager.pauseReason(campaignId) })
+    })
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { action } = body
+
+    switch (action) {
+      case 'setLimits': {
+        if (!body.limits || typeof body.limits !== 'object') {
+          return NextResponse.json({ success: false, error: 'limits is required' }, { status: 400 })
+        }
+        try {
+          validateLimits(body.limits)
+        } catch (validationError) {
+          return NextResponse.json({
+            success: false,
+            error: validationError instanceof Error ? validationError.message : 'Invalid limits'
+          }, { status: 400 })
+        }
+        const limits = await budgetManager().setLimits(body.limits)
+        console.log('💰 予算上限を更新:', JSON.stringify(limits))
+        return NextResponse.json({ success: true, timestamp: new Date().toISOString(), limits })
+      }
+
+      default:
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid action. Use: setLimits'
+        }, { status: 400 })
+    }
+  } catch (error) {
+    console.error('❌ 予算設定エラー:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
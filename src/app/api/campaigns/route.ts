@@ -0,0 +1,72 @@
+/**
+ * Campaigns API
+ * 企業情報収集の段階構成（キャンペーン）の登録・一覧
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { CampaignStore, DEFAULT_STAGES, STAGE_NAMES } from '@/lib/services/enrichmentPipeline'
+import { SEARCH_PROVIDER_NAMES } from '@/lib/services/searchProviders'
+
+export async function GET() {
+  try {
+    const store = new CampaignStore()
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      stages: STAGE_NAMES,
+      defaultStages: DEFAULT_STAGES,
+      searchProviders: SEARCH_PROVIDER_NAMES,
+      campaigns: await store.list()
+    })
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { action, id } = body
+    const store = new CampaignStore()
+
+    switch (action) {
+      case 'save': {
+        if (!body.campaign) {
+          return NextResponse.json({ success: false, error: 'campaign is required' }, { status: 400 })
+        }
+        try {
+          return NextResponse.json({ success: true, campaign: await store.save(body.campaign) })
+        } catch (validationError) {
+          return NextResponse.json({
+            success: false,
+            error: validationError instanceof Error ? validationError.message : 'Invalid campaign'
+          }, { status: 400 })
+        }
+      }
+
+      case 'delete': {
+        const deleted = await store.remove(id)
+        return NextResponse.json({ success: deleted, deleted: id }, { status: deleted ? 200 : 404 })
+      }
+
+      default:
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid action. Use: save, delete'
+        }, { status: 400 })
+    }
+  } catch (error) {
+    console.error('❌ キャンペーン処理エラー:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Contact Points API
+ * 企業ごとに取得したすべての連絡先（電話・メール・フォーム・URL）と代表の連絡先の取得
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { CONTACT_POINT_TYPES, ContactPointStore, primaryContact } from '@/lib/services/contactPoints'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const key = searchParams.get('corporateNumber') || searchParams.get('key')
+    const type = searchParams.get('type')
+
+    if (!key || !/^[\w-]+$/.test(key)) {
+      return NextResponse.json({
+        success: false,
+        error: 'corporateNumber (or key) is required'
+      }, { status: 400 })
+    }
+
+    const stored = await new ContactPointStore().get(key)
+    if (!stored) {
+      return NextResponse.json({
+        success: false,
+        error: `No contact points for: ${key}`
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      key,
+      companyName: stored.companyName,
+      updatedAt: stored.updatedAt,
+      primary: Object.fromEntries(CONTACT_POINT_TYPES.map(t => [t, primaryContact(stored.points, t) ?? null])),
+      contactPoints: type ? stored.points.filter(point => point.type === type) : stored.points
+    })
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Corporate Master API
+ * 法人マスタの初期構築・国税庁差分ファイル適用・変更一覧の取得
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { CorporateMasterStore, MasterChangeType } from '@/lib/services/corporateMasterStore'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const types = searchParams.get('types')?.split(',').filter(Boolean) as MasterChangeType[] | undefined
+    const consume = searchParams.get('consume') === 'true'
+    // 取り出し側ごとに読み取り位置を持つ（例: ?consumer=crm）
+    const consumer = searchParams.get('consumer') || undefined
+
+    const store = new CorporateMasterStore()
+    const changes = consume ? await store.consumeChanges(types, consumer) : await store.peekChanges(types, consumer)
+
+    const counts: Record<string, number> = {}
+    for (const change of changes) {
+      counts[change.type] = (counts[change.type] || 0) + 1
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      masterSize: await store.size(),
+      consumed: consume,
+      counts,
+      changes
+    })
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { action, csvPath, force = false } = body
+
+    if (!csvPath) {
+      return NextResponse.json({
+        success: false,
+        error: 'csvPath is required'
+      }, { status: 400 })
+    }
+
+    const store = new CorporateMasterStore()
+
+    switch (action) {
+      case 'import': {
+        const imported = await store.importFull(csvPath)
+        return NextResponse.json({
+          success: true,
+          timestamp: new Date().toISOString(),
+          imported,
+          masterSize: await store.size()
+        })
+      }
+
+      case 'apply-diff': {
+        const result = await store.applyDiffFile(csvPath, { force })
+        return NextResponse.json({
+          success: true,
+          timestamp: new Date().toISOString(),
+          result,
+          masterSize: await store.size()
+        })
+      }
+
+      default:
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid action. Use: import, apply-diff'
+        }, { status: 400 })
+    }
+  } catch (error) {
+    console.error('❌ 法人マスタ処理エラー:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
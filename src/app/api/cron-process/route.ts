@@ -6,6 +6,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { CSVCompanyProcessor } from '@/lib/services/csvCompanyProcessor'
 import { GoogleSheetsService, CSVProcessingResult } from '@/lib/googleSheets'
+import { CompanyFilter, normalizeFilter, sameFilter } from '@/lib/services/companyFilter'
+import { CorporateDataset, DatasetRegistry } from '@/lib/services/datasetRegistry'
+import { ImportProfileStore } from '@/lib/services/importProfiles'
+import { CampaignStore, withStageParams } from '@/lib/services/enrichmentPipeline'
+import { formatEvidence } from '@/lib/services/jobPostingEvidence'
+import { PHONE_TYPE_LABELS } from '@/lib/services/phoneClassifier'
 import path from 'path'
 
 export const maxDuration = 60 // Vercel Pro: 60秒タイムアウト
@@ -30,23 +36,107 @@ export async function GET(request: NextRequest) {
     const isCurlTest = userAgent.includes('curl')
     console.log('📋 実行元:', isVercelCron ? 'Vercel Cron Job' : isCurlTest ? 'Manual cURL' : 'Unknown')
     
-    // スプレッドシートから次のindexを自動計算
     const sheetsService = new GoogleSheetsService()
-    const currentIndex = await sheetsService.getNextProcessingIndex('営業リストV2')
-    
+    const registry = new DatasetRegistry()
     const { searchParams } = new URL(request.url)
-    const defaultCsvFile = searchParams.get('csv') || '01_hokkaido_all_20250829.csv'
-    const csvPath = path.join(process.cwd(), 'public', defaultCsvFile)
+    const legacyCsvFile = searchParams.get('csv')
+    
+    let dataset: CorporateDataset | null = null
+    let csvPath: string
+    let currentIndex: number
+    
+    if (!legacyCsvFile && (await registry.list()).length > 0) {
+      // データセットレジストリから次の未完了データセットを選択（?datasets=01,13 で絞り込み）
+      const subset = searchParams.get('datasets')?.split(',').filter(Boolean)
+      dataset = await registry.nextDataset(subset)
+      
+      if (!dataset) {
+        return NextResponse.json({
+          success: true,
+          message: '全データセット処理完了',
+          completed: true,
+          timestamp: new Date().toISOString(),
+          executionTime: Date.now() - startTime
+        })
+      }
+      
+      csvPath = registry.resolvePath(dataset)
+      currentIndex = dataset.progress.currentIndex
+      console.log(`🗂️ データセット: ${dataset.id} (${dataset.prefectureName || '-'})`)
+    } else {
+      // 従来方式: スプレッドシートから次のindexを自動計算
+      currentIndex = await sheetsService.getNextProcessingIndex('営業リストV2')
+      csvPath = path.join(process.cwd(), 'public', legacyCsvFile || '01_hokkaido_all_20250829.csv')
+    }
+    
+    // 例: ?filter=pref:01 kind:301 （指定時はindexがフィルタ一致件数基準）
+    let requestedFilter: CompanyFilter | undefined
+    try {
+      requestedFilter = normalizeFilter(searchParams.get('filter'))
+    } catch (filterError) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid filter: ${filterError instanceof Error ? filterError.message : 'Unknown error'}`,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    // データセットの進捗はデータセットのフィルタの一致件数基準のため、別のフィルタでは進めない
+    if (dataset && requestedFilter && !sameFilter(requestedFilter, dataset.filter)) {
+      return NextResponse.json({
+        success: false,
+        error: `filter does not match the filter of dataset ${dataset.id}; update the dataset filter instead`,
+        dataset: dataset.id,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    const filter = requestedFilter ?? dataset?.filter
+
+    // 例: ?campaign=no-hiring-check （段階構成の切り替え）
+    const campaignId = searchParams.get('campaign')
+    let campaign = campaignId ? await new CampaignStore().get(campaignId) ?? undefined : undefined
+    if (campaignId && !campaign) {
+      return NextResponse.json({
+        success: false,
+        error: `Campaign not found: ${campaignId}`,
+        timestamp: new Date().toISOString()
+      }, { status: 404 })
+    }
+    
+    // 例: ?maxJobAgeDays=30 （30日以内に掲載された求人がある企業のみ）
+    const maxJobAgeDays = parseInt(searchParams.get('maxJobAgeDays') || '0')
+    if (maxJobAgeDays > 0) {
+      campaign = withStageParams(campaign, 'jobPosting', { maxAgeDays: maxJobAgeDays })
+    }
     
     console.log(`📋 自動計算された処理対象: ${currentIndex + 1}件目 (index: ${currentIndex})`)
     
     // 1件だけ処理
     const processor = new CSVCompanyProcessor()
-    const results = await processor.processBatch(csvPath, 1, currentIndex)
+    const profile = dataset?.profileId ? await new ImportProfileStore().get(dataset.profileId) ?? undefined : undefined
+    const results = await processor.processBatch(csvPath, 1, currentIndex, {
+      filter,
+      profile,
+      campaign,
+      seenNumbersPath: dataset ? registry.seenNumbersPath(dataset) : undefined,
+      filterCursor: dataset?.progress.filterCursor
+    })
     const result = results[0]
     
     const executionTime = Date.now() - startTime
     
+    if (!result && dataset) {
+      // 対象が尽きたデータセットは完了にして次回は次のデータセットへ
+      await registry.markCompleted(dataset.id)
+      return NextResponse.json({
+        success: true,
+        message: `データセット処理完了: ${dataset.id}`,
+        dataset: dataset.id,
+        currentIndex,
+        timestamp: new Date().toISOString(),
+        executionTime
+      })
+    }
+    
     if (!result) {
       return NextResponse.json({
         success: false,
@@ -56,7 +146,21 @@ export async function GET(request: NextRequest) {
         executionTime
       }, { status: 404 })
     }
-    
+
+    // 予算上限で処理しなかった企業はシート・進捗に記録せず、上限の変更後に同じ位置から再開する
+    const budgetPaused = processor.getBatchSummary()?.budgetPaused
+    if (budgetPaused) {
+      console.log(`⏸️ 予算上限で一時停止: ${budgetPaused}`)
+      return NextResponse.json({
+        success: true,
+        paused: budgetPaused,
+        currentIndex,
+        dataset: dataset?.id ?? null,
+        timestamp: new Date().toISOString(),
+        executionTime
+      })
+    }
+
     // 結果の整理
     const processedResult = {
       index: currentIndex,
@@ -67,19 +171,32 @@ export async function GET(request: NextRequest) {
       scrapingSuccess: !!result.scrapingResult,
       contactInfo: result.scrapingResult ? {
         phoneNumber: result.scrapingResult.phoneNumber,
+        phoneType: result.scrapingResult.phoneType,
+        phoneNumbers: result.scrapingResult.phoneNumbers,
         email: result.scrapingResult.email,
         website: result.scrapingResult.website,
-        confidence: result.scrapingResult.confidence
+        confidence: result.scrapingResult.confidence,
+        extractionMethods: result.scrapingResult.extractionMethods,
+        contactFormUrl: result.scrapingResult.contactFormUrl,
+        contactForm: result.scrapingResult.contactForm,
+        contactPoints: result.scrapingResult.contactPoints,
+        siteOwnership: result.scrapingResult.siteOwnership
       } : null,
       executionTime: result.executionTime,
-      error: result.error
+      error: result.error,
+      successorResolution: result.successorResolution,
+      stageOutcomes: result.stageOutcomes,
+      jobPostings: result.jobPostings,
+      importedContact: result.importedContact,
+      traceId: result.trace?.traceId
     }
     
     // Google Sheetsに保存
     try {
       const sheetData: CSVProcessingResult = {
         処理番号: currentIndex + 1,
-        法人番号: result.originalData.corporateNumber || result.originalData.法人番号 || '',
+        // 検証エラーの法人番号はシートに書き込まない
+        法人番号: result.validationErrors ? '' : result.originalData.corporateNumber || result.originalData.法人番号 || '',
         企業名: result.originalData.corporateName || result.originalData.法人名 || '',
         市区町村: result.originalData.cityName || '',
         都道府県: result.originalData.prefectureName || '',
@@ -90,7 +207,15 @@ export async function GET(request: NextRequest) {
         処理成功: result.processed && !!result.scrapingResult,
         処理時間: result.executionTime,
         取得日時: new Date().toLocaleString('ja-JP'),
-        エラー: result.error || ''
+        エラー: result.error || '',
+        求人情報: (result.jobPostings || []).map(formatEvidence).join(' / '),
+        問い合わせフォーム: result.scrapingResult?.contactFormUrl || '',
+        電話種別: result.scrapingResult?.phoneType ? PHONE_TYPE_LABELS[result.scrapingResult.phoneType] : '',
+        既存電話番号: result.importedContact?.phoneNumber || '',
+        既存電話番号検証: result.importedContact?.phoneNumber
+          ? result.importedContact.phoneVerified === undefined ? '未検証' : result.importedContact.phoneVerified ? '一致' : '不一致'
+          : '',
+        既存ウェブサイト: result.importedContact?.website || ''
       }
       
       await sheetsService.appendCSVResult(sheetData, '営業リストV2')
@@ -100,6 +225,10 @@ export async function GET(request: NextRequest) {
       // スプレッドシート保存失敗でも処理は続行
     }
     
+    if (dataset) {
+      dataset = await registry.recordProgress(dataset.id, result, processor.getBatchSummary()?.filterCursor)
+    }
+    
     console.log('✅ Cron処理完了:', processedResult.companyName)
     
     return NextResponse.json({
@@ -108,13 +237,19 @@ export async function GET(request: NextRequest) {
       executionTime,
       result: processedResult,
       nextIndex: currentIndex + 1,
+      dataset: dataset ? {
+        id: dataset.id,
+        prefectureName: dataset.prefectureName,
+        rowCount: dataset.rowCount,
+        progress: dataset.progress
+      } : null,
       progress: {
         current: currentIndex + 1,
-        estimated: '約230,000件',
+        estimated: dataset ? `${dataset.rowCount.toLocaleString()}件` : '約230,000件',
         dailyRate: '約200-300件/日（1-3分間隔）'
       },
       // 次のCron実行用URL（手動テスト用）
-      nextUrl: `/api/cron-process?index=${currentIndex + 1}&csv=${csvPath}`,
+      nextUrl: dataset ? '/api/cron-process' : `/api/cron-process?index=${currentIndex + 1}&csv=${csvPath}`,
       source: 'vercel-cron-job'
     })
     
@@ -0,0 +1,102 @@
+/**
+ * Dataset Registry API
+ * 都道府県別法人CSVデータセットの登録・一覧・進捗管理
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import path from 'path'
+import { DatasetRegistry } from '@/lib/services/datasetRegistry'
+import { CompanyFilter, normalizeFilter } from '@/lib/services/companyFilter'
+
+export async function GET() {
+  try {
+    const registry = new DatasetRegistry()
+    const datasets = await registry.list()
+
+    const totals = datasets.reduce((sum, d) => ({
+      rowCount: sum.rowCount + d.rowCount,
+      processedCount: sum.processedCount + d.progress.processedCount,
+      successCount: sum.successCount + d.progress.successCount
+    }), { rowCount: 0, processedCount: 0, successCount: 0 })
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      totals: {
+        ...totals,
+        datasets: datasets.length,
+        completed: datasets.filter(d => d.progress.completedAt).length
+      },
+      datasets: datasets.map(d => ({
+        ...d,
+        percentage: d.rowCount > 0 ? Math.round((d.progress.currentIndex / d.rowCount) * 10000) / 100 : 0
+      }))
+    })
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { action, id } = body
+    const registry = new DatasetRegistry()
+
+    switch (action) {
+      case 'register': {
+        if (!body.filePath) {
+          return NextResponse.json({ success: false, error: 'filePath is required' }, { status: 400 })
+        }
+        // null はフィルタの解除（未指定は登録済みのフィルタを引き継ぐ）
+        let filter: CompanyFilter | null | undefined
+        try {
+          filter = body.filter === null ? null : normalizeFilter(body.filter)
+        } catch (filterError) {
+          return NextResponse.json({
+            success: false,
+            error: filterError instanceof Error ? filterError.message : 'Invalid filter'
+          }, { status: 400 })
+        }
+        const dataset = await registry.register(body.filePath, {
+          id,
+          prefectureCode: body.prefectureCode,
+          filter,
+          profileId: body.profileId
+        })
+        return NextResponse.json({ success: true, dataset })
+      }
+
+      case 'scan': {
+        const directory = body.directory || path.join(process.cwd(), 'public')
+        const datasets = await registry.scanDirectory(directory)
+        return NextResponse.json({ success: true, directory, registered: datasets.length, datasets })
+      }
+
+      case 'reset':
+        return NextResponse.json({ success: true, dataset: await registry.resetProgress(id) })
+
+      case 'enable':
+      case 'disable':
+        return NextResponse.json({ success: true, dataset: await registry.setEnabled(id, action === 'enable') })
+
+      default:
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid action. Use: register, scan, reset, enable, disable'
+        }, { status: 400 })
+    }
+  } catch (error) {
+    console.error('❌ データセット処理エラー:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Dataset Upload API
+ * 国税庁zip・CSVのアップロード、検証レポート作成、データセット登録
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import fs from 'fs'
+import path from 'path'
+import { DatasetRegistry, CorporateDataset } from '@/lib/services/datasetRegistry'
+import { CsvValidationReport, validateCorporateCSV } from '@/lib/services/corporateCsvLoader'
+import { CorporateRecordValidator } from '@/lib/services/corporateRecordValidator'
+import { CompanyFilter, normalizeFilter } from '@/lib/services/companyFilter'
+import { ZipArchiveError, extractZipEntry, listZipEntries } from '@/lib/services/zipArchive'
+import { ImportProfileStore, profileReadOptions, profileValidatorOptions } from '@/lib/services/importProfiles'
+
+const DATASET_DIR = path.join(process.cwd(), 'data', 'datasets')
+
+// パス区切り・制御文字を除いたファイル名
+const safeFileName = (name: string): string =>
+  path.basename(name.replace(/\\/g, '/')).replace(/[\x00-\x1f<>:"|?*]/g, '_')
+
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData()
+    const file = form.get('file')
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({
+        success: false,
+        error: 'file is required (multipart/form-data)'
+      }, { status: 400 })
+    }
+
+    const fileName = safeFileName(file.name)
+    const extension = path.extname(fileName).toLowerCase()
+    if (extension !== '.zip' && extension !== '.csv') {
+      return NextResponse.json({
+        success: false,
+        error: 'Unsupported file type. Upload a .zip or .csv file'
+      }, { status: 400 })
+    }
+
+    // filter はフィルタ式 or JSON文字列
+    const filterValue = form.get('filter')
+    let filter: CompanyFilter | undefined
+    try {
+      filter = typeof filterValue === 'string' && filterValue
+        ? normalizeFilter(filterValue.trim().startsWith('{') ? JSON.parse(filterValue) : filterValue)
+        : undefined
+    } catch (filterError) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid filter: ${filterError instanceof Error ? filterError.message : 'Unknown error'}`
+      }, { status: 400 })
+    }
+    const shouldRegister = form.get('register') !== 'false'
+
+    // リード一覧はインポートプロファイルで検証・登録
+    const profileId = form.get('profileId')
+    const profile = typeof profileId === 'string' && profileId ? await new ImportProfileStore().get(profileId) : null
+    if (profileId && !profile) {
+      return NextResponse.json({ success: false, error: `Import profile not found: ${profileId}` }, { status: 404 })
+    }
+    const buffer = Buffer.from(await file.arrayBuffer())
+    await fs.promises.mkdir(DATASET_DIR, { recursive: true })
+
+    console.log(`📥 アップロード受信: ${fileName} (${buffer.length} bytes)`)
+
+    // zipはCSVエントリのみ展開（同梱のPDF等は無視）
+    const csvPaths: string[] = []
+    if (extension === '.zip') {
+      const entries = listZipEntries(buffer).filter(e => !e.isDirectory && /\.csv$/i.test(e.name))
+      if (entries.length === 0) {
+        return NextResponse.json({ success: false, error: 'No CSV files found in zip archive' }, { status: 400 })
+      }
+      for (const entry of entries) {
+        const csvPath = path.join(DATASET_DIR, safeFileName(entry.name))
+        await extractZipEntry(buffer, entry, csvPath)
+        console.log(`🗜️ 展開: ${entry.name} (${entry.size} bytes)`)
+        csvPaths.push(csvPath)
+      }
+    } else {
+      const csvPath = path.join(DATASET_DIR, fileName)
+      await fs.promises.writeFile(csvPath, buffer)
+      csvPaths.push(csvPath)
+    }
+
+    const uploaded: { filePath: string, report: CsvValidationReport, dataset: CorporateDataset | null }[] = []
+    const registry = new DatasetRegistry()
+
+    for (const csvPath of csvPaths) {
+      const report = await validateCorporateCSV(csvPath, {
+        quarantinePath: CorporateRecordValidator.defaultQuarantinePath(csvPath),
+        ...(profile ? { ...profileReadOptions(profile), ...profileValidatorOptions(profile) } : {})
+      })
+      console.log(`🔎 検証: ${path.basename(csvPath)} 有効${report.validation.valid}件 / 不正${report.validation.invalid}件`)
+
+      // 有効行がないファイルは登録しない
+      const dataset = shouldRegister && report.validation.valid > 0
+        ? await registry.register(csvPath, {
+            id: csvPaths.length === 1 ? (form.get('id') as string | null) || undefined : undefined,
+            prefectureCode: (form.get('prefectureCode') as string | null) || undefined,
+            filter,
+            profileId: profile?.id
+          })
+        : null
+
+      uploaded.push({ filePath: path.relative(process.cwd(), csvPath), report, dataset })
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      upload: {
+        fileName,
+        size: buffer.length,
+        extractedFiles: csvPaths.length
+      },
+      datasets: uploaded
+    })
+  } catch (error) {
+    // 壊れた・途中で切れたzipはアップロードされたファイルの問題
+    if (error instanceof ZipArchiveError) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString()
+      }, { status: 400 })
+    }
+    console.error('❌ アップロード処理エラー:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
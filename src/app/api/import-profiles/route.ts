@@ -0,0 +1,91 @@
+/**
+ * Import Profiles API
+ * リード一覧CSVの列マッピング（インポートプロファイル）の登録・一覧・プレビュー
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { validateCorporateCSV } from '@/lib/services/corporateCsvLoader'
+import {
+  ImportProfileStore,
+  MAPPABLE_FIELDS,
+  profileReadOptions,
+  profileValidatorOptions
+} from '@/lib/services/importProfiles'
+
+export async function GET() {
+  try {
+    const store = new ImportProfileStore()
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      fields: MAPPABLE_FIELDS,
+      profiles: await store.list()
+    })
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { action, id } = body
+    const store = new ImportProfileStore()
+
+    switch (action) {
+      case 'save': {
+        if (!body.profile) {
+          return NextResponse.json({ success: false, error: 'profile is required' }, { status: 400 })
+        }
+        try {
+          return NextResponse.json({ success: true, profile: await store.save(body.profile) })
+        } catch (validationError) {
+          return NextResponse.json({
+            success: false,
+            error: validationError instanceof Error ? validationError.message : 'Invalid profile'
+          }, { status: 400 })
+        }
+      }
+
+      case 'delete': {
+        const deleted = await store.remove(id)
+        return NextResponse.json({ success: deleted, deleted: id }, { status: deleted ? 200 : 404 })
+      }
+
+      // 列マッピングをCSVに適用した検証結果（登録・処理はしない）
+      case 'preview': {
+        if (!body.csvPath) {
+          return NextResponse.json({ success: false, error: 'csvPath is required' }, { status: 400 })
+        }
+        const profile = await store.get(id)
+        if (!profile) {
+          return NextResponse.json({ success: false, error: `Import profile not found: ${id}` }, { status: 404 })
+        }
+        const report = await validateCorporateCSV(body.csvPath, {
+          ...profileReadOptions(profile),
+          ...profileValidatorOptions(profile)
+        })
+        return NextResponse.json({ success: true, profile: profile.id, report })
+      }
+
+      default:
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid action. Use: save, delete, preview'
+        }, { status: 400 })
+    }
+  } catch (error) {
+    console.error('❌ インポートプロファイル処理エラー:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
@@ -5,6 +5,10 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { CSVCompanyProcessor } from '@/lib/services/csvCompanyProcessor'
+import { CompanyFilter, normalizeFilter } from '@/lib/services/companyFilter'
+import { ImportProfile, ImportProfileStore } from '@/lib/services/importProfiles'
+import { Campaign, CampaignStore, withStageParams } from '@/lib/services/enrichmentPipeline'
+import { ReplayOptions } from '@/lib/services/replayRecorder'
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now()
@@ -16,7 +20,10 @@ export async function POST(request: NextRequest) {
     const { 
       csvPath = './data/corporate_data.csv',
       maxRecords = 5,
-      startIndex = 0
+      startIndex = 0,
+      concurrency,
+      companyTimeoutMs,
+      jobPostingMaxAgeDays
     } = body
     
     if (!csvPath) {
@@ -25,11 +32,72 @@ export async function POST(request: NextRequest) {
         error: 'csvPath is required'
       }, { status: 400 })
     }
+
+    let filter: CompanyFilter | undefined
+    try {
+      filter = normalizeFilter(body.filter)
+    } catch (filterError) {
+      return NextResponse.json({
+        success: false,
+        error: filterError instanceof Error ? filterError.message : 'Invalid filter'
+      }, { status: 400 })
+    }
+    
+    // リード一覧はインポートプロファイルの列マッピングで読み込む
+    let profile: ImportProfile | undefined
+    if (body.profileId) {
+      profile = await new ImportProfileStore().get(body.profileId) ?? undefined
+      if (!profile) {
+        return NextResponse.json({
+          success: false,
+          error: `Import profile not found: ${body.profileId}`
+        }, { status: 404 })
+      }
+    }
     
-    console.log(`📋 設定: CSV=${csvPath}, 最大${maxRecords}件, ${startIndex}行目から`)
+    // キャンペーン指定時はその段階構成で処理
+    let campaign: Campaign | undefined
+    if (body.campaignId) {
+      campaign = await new CampaignStore().get(body.campaignId) ?? undefined
+      if (!campaign) {
+        return NextResponse.json({
+          success: false,
+          error: `Campaign not found: ${body.campaignId}`
+        }, { status: 404 })
+      }
+    }
+    
+    // 通信の記録（record）、または記録からの再実行（replay、ネットワークなし）
+    let replay: ReplayOptions | undefined
+    if (body.replay) {
+      const mode = typeof body.replay === 'string' ? body.replay : body.replay.mode
+      const recordingId = typeof body.replay === 'object' ? body.replay.recordingId : undefined
+      if ((mode !== 'record' && mode !== 'replay') || (recordingId !== undefined && !/^[\w-]+$/.test(recordingId))) {
+        return NextResponse.json({
+          success: false,
+          error: `Invalid replay option: ${JSON.stringify(body.replay)}`
+        }, { status: 400 })
+      }
+      replay = { mode, recordingId }
+    }
+    
+    // 求人の掲載日条件（例: 30日以内）はこの実行のみ段階パラメータを上書き
+    if (jobPostingMaxAgeDays > 0) {
+      campaign = withStageParams(campaign, 'jobPosting', { maxAgeDays: jobPostingMaxAgeDays })
+    }
+    
+    console.log(`📋 設定: CSV=${csvPath}, 最大${maxRecords}件, ${startIndex}行目から`, filter ? { filter } : '', profile ? `プロファイル=${profile.id}` : '', campaign ? `キャンペーン=${campaign.id}` : '', replay ? `通信=${replay.mode}` : '')
     
     const processor = new CSVCompanyProcessor()
-    const results = await processor.processBatch(csvPath, maxRecords, startIndex)
+    const results = await processor.processBatch(csvPath, maxRecords, startIndex, {
+      filter,
+      profile,
+      campaign,
+      concurrency,
+      companyTimeoutMs,
+      replay
+    })
+    const batchSummary = processor.getBatchSummary()
     
     const endTime = Date.now()
     const executionTime = endTime - startTime
@@ -57,15 +125,26 @@ export async function POST(request: NextRequest) {
       settings: {
         csvPath,
         maxRecords,
-        startIndex
+        startIndex,
+        filter,
+        profileId: profile?.id,
+        campaignId: campaign?.id,
+        jobPostingMaxAgeDays,
+        replay,
+        concurrency: batchSummary?.concurrency
       },
       statistics: {
         totalProcessed: results.length,
         successCount: successResults.length,
         highQualityCount: highQualityResults.length,
         averageConfidence: Math.round(avgConfidence * 10) / 10,
-        errorCount: results.filter(r => !r.processed).length
+        errorCount: results.filter(r => !r.processed).length,
+        invalidCount: results.filter(r => r.validationErrors).length,
+        redirectedCount: results.filter(r => r.successorResolution?.status === 'resolved').length,
+        timedOutCount: batchSummary?.timedOut ?? 0,
+        throughputPerHour: batchSummary?.throughputPerHour ?? 0
       },
+      batchSummary,
       results: results.map(r => ({
         companyName: r.originalData.corporateName || r.originalData.法人名,
         corporateNumber: r.originalData.corporateNumber || r.originalData.法人番号,
@@ -73,12 +152,25 @@ export async function POST(request: NextRequest) {
         scrapingSuccess: !!r.scrapingResult,
         confidence: r.scrapingResult?.confidence || 0,
         phoneNumber: r.scrapingResult?.phoneNumber,
+        phoneType: r.scrapingResult?.phoneType,
+        phoneNumbers: r.scrapingResult?.phoneNumbers,
         email: r.scrapingResult?.email,
         website: r.scrapingResult?.website,
         businessType: r.scrapingResult?.businessType,
+        extractionMethods: r.scrapingResult?.extractionMethods,
+        contactFormUrl: r.scrapingResult?.contactFormUrl,
+        contactForm: r.scrapingResult?.contactForm,
+        contactPoints: r.scrapingResult?.contactPoints,
+        siteOwnership: r.scrapingResult?.siteOwnership,
         processed: r.processed,
         executionTime: r.executionTime,
-        error: r.error
+        error: r.error,
+        validationErrors: r.validationErrors,
+        successorResolution: r.successorResolution,
+        stageOutcomes: r.stageOutcomes,
+        jobPostings: r.jobPostings,
+        traceId: r.trace?.traceId,
+        replay: r.replay
       })),
       source: 'csv-company-processor'
     })
@@ -110,11 +202,12 @@ export async function GET(request: NextRequest) {
   const csvPath = searchParams.get('csv') || './data/corporate_data.csv'
   const maxRecords = parseInt(searchParams.get('max') || '5')
   const startIndex = parseInt(searchParams.get('start') || '0')
+  const filter = searchParams.get('filter') || undefined
   
   // POSTメソッドと同じ処理を実行
   return POST(new NextRequest(request.url, {
     method: 'POST',
-    body: JSON.stringify({ csvPath, maxRecords, startIndex }),
+    body: JSON.stringify({ csvPath, maxRecords, startIndex, filter }),
     headers: { 'Content-Type': 'application/json' }
   }))
 }
\ No newline at end of file
@@ -4,7 +4,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { CSVCompanyProcessor } from '@/lib/services/csvCompanyProcessor'
+import { CSVCompanyProcessor, FilterCursor } from '@/lib/services/csvCompanyProcessor'
+import { CompanyFilter, normalizeFilter } from '@/lib/services/companyFilter'
+import { DatasetRegistry } from '@/lib/services/datasetRegistry'
+import { ImportProfile, ImportProfileStore, profileReadOptions } from '@/lib/services/importProfiles'
+import { CampaignStore, withStageParams } from '@/lib/services/enrichmentPipeline'
+import { budgetManager } from '@/lib/services/budgetManager'
 import fs from 'fs'
 import path from 'path'
 
@@ -19,10 +24,18 @@ export interface ProcessingState {
   isProcessing: boolean
   startTime?: string
   estimatedCompletion?: string
+  filter?: CompanyFilter
+  profileId?: string
+  campaignId?: string
+  jobPostingMaxAgeDays?: number
+  pausedReason?: string    // 費用の上限で停止中（上限の変更後に next で再開）
+  filterCursor?: FilterCursor  // フィルタ指定時の再開位置（先頭から走査し直さない）
 }
 
 const STATE_FILE = './data/processing_state.json'
 const RESULTS_FILE = './data/processing_results.json'
+// 1件ずつの呼び出しをまたいで法人番号の重複を検出するための検証済み番号
+const SEEN_NUMBERS_FILE = './data/processing_seen.csv'
 
 export async function GET(request: NextRequest) {
   try {
@@ -44,11 +57,54 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { action, csvPath = './data/01_hokkaido_all_20250829.csv' } = body
+    const { action, datasetId } = body
+    let { csvPath = './data/01_hokkaido_all_20250829.csv', profileId } = body
+
+    // データセットID指定時はレジストリのファイルを使用
+    if (datasetId) {
+      const registry = new DatasetRegistry()
+      const dataset = await registry.get(datasetId)
+      if (!dataset) {
+        return NextResponse.json({
+          success: false,
+          error: `Dataset not found: ${datasetId}`
+        }, { status: 404 })
+      }
+      csvPath = registry.resolvePath(dataset)
+      profileId ??= dataset.profileId
+    }
+
+    // リード一覧のインポートプロファイル
+    let profile: ImportProfile | undefined
+    if (profileId) {
+      profile = await new ImportProfileStore().get(profileId) ?? undefined
+      if (!profile) {
+        return NextResponse.json({
+          success: false,
+          error: `Import profile not found: ${profileId}`
+        }, { status: 404 })
+      }
+    }
 
     switch (action) {
-      case 'start':
-        return await startProcessing(csvPath)
+      case 'start': {
+        if (body.campaignId && !await new CampaignStore().get(body.campaignId)) {
+          return NextResponse.json({
+            success: false,
+            error: `Campaign not found: ${body.campaignId}`
+          }, { status: 404 })
+        }
+        let filter: CompanyFilter | undefined
+        try {
+          filter = normalizeFilter(body.filter)
+        } catch (filterError) {
+          return NextResponse.json({
+            success: false,
+            error: filterError instanceof Error ? filterError.message : 'Invalid filter'
+          }, { status: 400 })
+        }
+        return await startProcessing(csvPath, filter, profile, body.campaignId, body.jobPostingMaxAgeDays)
+      }
       
       case 'next':
         return await processNext(csvPath)
@@ -80,11 +136,18 @@ export async function POST(request: NextRequest) {
 /**
  * 処理開始 - 初期化とカウント
  */
-async function startProcessing(csvPath: string): Promise<NextResponse> {
+async function startProcessing(
+  csvPath: string,
+  filter?: CompanyFilter,
+  profile?: ImportProfile,
+  campaignId?: string,
+  jobPostingMaxAgeDays?: number
+): Promise<NextResponse> {
   console.log('🚀 連続処理開始')
   
-  // CSVの総行数をカウント
-  const totalRecords = await countCSVRecords(csvPath)
+  // 処理対象件数をカウント（フィルタ指定時は一致件数）
+  const processor = new CSVCompanyProcessor()
+  const totalRecords = await processor.countTargetRecords(csvPath, filter, profile ? profileReadOptions(profile) : undefined)
   
   const initialState: ProcessingState = {
     currentIndex: 0,
@@ -93,13 +156,18 @@ async function startProcessing(csvPath: string): Promise<NextResponse> {
     successCount: 0,
     errorCount: 0,
     isProcessing: false,
-    startTime: new Date().toISOString()
+    startTime: new Date().toISOString(),
+    filter,
+    profileId: profile?.id,
+    campaignId,
+    jobPostingMaxAgeDays
   }
   
   await saveProcessingState(initialState)
   
   // 結果ファイル初期化
   await fs.promises.writeFile(RESULTS_FILE, JSON.stringify([], null, 2))
+  await fs.promises.rm(SEEN_NUMBERS_FILE, { force: true })
   
   console.log(`📊 処理準備完了: ${totalRecords}件`)
   
@@ -138,7 +206,14 @@ async function processNext(csvPath: string): Promise<NextResponse> {
     })
   }
   
+  // 費用の上限に達していたらトリガー連鎖を止める（上限を変更して next を再実行すると再開）
+  const pausedReason = await budgetManager().pauseReason(state.campaignId)
+  if (pausedReason) {
+    return await pauseProcessing(state, pausedReason)
+  }
+
   // 処理中フラグを立てる
+  delete state.pausedReason
   state.isProcessing = true
   await saveProcessingState(state)
   
@@ -148,9 +223,44 @@ async function processNext(csvPath: string): Promise<NextResponse> {
     console.log(`📋 処理中: ${state.currentIndex + 1}/${state.totalRecords}`)
     
     // 1件だけ処理
-    const results = await processor.processBatch(csvPath, 1, state.currentIndex)
+    const profile = state.profileId ? await new ImportProfileStore().get(state.profileId) ?? undefined : undefined
+    let campaign = state.campaignId ? await new CampaignStore().get(state.campaignId) ?? undefined : undefined
+    if (state.jobPostingMaxAgeDays && state.jobPostingMaxAgeDays > 0) {
+      campaign = withStageParams(campaign, 'jobPosting', { maxAgeDays: state.jobPostingMaxAgeDays })
+    }
+    const results = await processor.processBatch(csvPath, 1, state.currentIndex, {
+      filter: state.filter,
+      profile,
+      campaign,
+      seenNumbersPath: SEEN_NUMBERS_FILE,
+      filterCursor: state.filterCursor
+    })
     const result = results[0]
-    
+
+    // 処理直前に上限へ達した場合は同じ行から再開できるよう位置を進めない
+    const budgetPaused = processor.getBatchSummary()?.budgetPaused
+    if (budgetPaused) {
+      return await pauseProcessing(state, budgetPaused)
+    }
+
+    // フィルター条件に合う行が尽きた場合は完了として扱う（エラー扱いで位置を進めない）
+    if (!result) {
+      const completedState: ProcessingState = {
+        ...state,
+        currentIndex: state.totalRecords,
+        isProcessing: false,
+        estimatedCompletion: new Date().toISOString()
+      }
+      await saveProcessingState(completedState)
+      console.log(`🏁 対象が尽きたため完了: ${state.processedCount}件処理`)
+      return NextResponse.json({
+        success: true,
+        message: '全件処理完了！',
+        state: completedState,
+        completed: true
+      })
+    }
+
     // 結果を保存
     await appendResult(result)
     
@@ -162,7 +272,8 @@ async function processNext(csvPath: string): Promise<NextResponse> {
       successCount: state.successCount + (result.processed ? 1 : 0),
       errorCount: state.errorCount + (result.processed ? 0 : 1),
       lastProcessed: result.originalData.corporateName || result.originalData.法人名 || 'Unknown',
-      isProcessing: false
+      isProcessing: false,
+      filterCursor: processor.getBatchSummary()?.filterCursor ?? state.filterCursor
     }
     
     // 完了時間推定
@@ -185,8 +296,11 @@ async function processNext(csvPath: string): Promise<NextResponse> {
         processed: result.processed,
         scrapingSuccess: !!result.scrapingResult,
         phoneNumber: result.scrapingResult?.phoneNumber,
+        phoneType: result.scrapingResult?.phoneType,
         email: result.scrapingResult?.email,
-        confidence: result.scrapingResult?.confidence || 0
+        contactFormUrl: result.scrapingResult?.contactFormUrl,
+        confidence: result.scrapingResult?.confidence || 0,
+        jobPostings: result.jobPostings
       },
       state: updatedState,
       progress: {
@@ -230,6 +344,23 @@ async function processNext(csvPath: string): Promise<NextResponse> {
   }
 }
 
+/**
+ * 予算上限による一時停止（次のトリガーを返さない）
+ */
+async function pauseProcessing(state: ProcessingState, pausedReason: string): Promise<NextResponse> {
+  console.log(`⏸️ 予算上限で一時停止: ${pausedReason}`)
+  const pausedState: ProcessingState = { ...state, isProcessing: false, pausedReason }
+  await saveProcessingState(pausedState)
+
+  return NextResponse.json({
+    success: false,
+    paused: true,
+    error: `予算上限により一時停止中: ${pausedReason}`,
+    state: pausedState,
+    nextTrigger: null
+  })
+}
+
 /**
  * 状態取得
  */
@@ -257,6 +388,7 @@ async function resetProcessing(): Promise<NextResponse> {
     if (fs.existsSync(RESULTS_FILE)) {
       await fs.promises.unlink(RESULTS_FILE)
     }
+    await fs.promises.rm(SEEN_NUMBERS_FILE, { force: true })
     
     return NextResponse.json({
       success: true,
@@ -270,32 +402,6 @@ async function resetProcessing(): Promise<NextResponse> {
   }
 }
 
-/**
- * CSV行数カウント
- */
-async function countCSVRecords(csvPath: string): Promise<number> {
-  return new Promise((resolve, reject) => {
-    let count = 0
-    
-    if (!fs.existsSync(csvPath)) {
-      reject(new Error(`CSV file not found: ${csvPath}`))
-      return
-    }
-    
-    const stream = fs.createReadStream(csvPath, { encoding: 'utf8' })
-    
-    stream.on('data', (chunk: string) => {
-      count += (chunk.match(/\n/g) || []).length
-    })
-    
-    stream.on('end', () => {
-      resolve(count)
-    })
-    
-    stream.on('error', reject)
-  })
-}
-
 /**
  * 処理状態の保存
  */
@@ -353,11 +459,16 @@ async function appendResult(result: any): Promise<void> {
       processed: result.processed,
       scrapingResult: result.scrapingResult ? {
         phoneNumber: result.scrapingResult.phoneNumber,
+        phoneType: result.scrapingResult.phoneType,
         email: result.scrapingResult.email,
+        contactFormUrl: result.scrapingResult.contactFormUrl,
         confidence: result.scrapingResult.confidence
       } : null,
       executionTime: result.executionTime,
-      error: result.error
+      error: result.error,
+      successorResolution: result.successorResolution,
+      jobPostings: result.jobPostings,
+      traceId: result.trace?.traceId
     })
     
     await fs.promises.writeFile(RESULTS_FILE, JSON.stringify(results, null, 2))
@@ -0,0 +1,55 @@
+/**
+ * Recordings API
+ * 企業ごとの通信記録（検索結果・取得ページ・AI応答）の一覧と記録時の結果の取得
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { RecordingStore } from '@/lib/services/replayRecorder'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const key = searchParams.get('corporateNumber') || searchParams.get('key')
+    const recordingId = searchParams.get('recordingId')
+
+    if (!key || !/^[\w-]+$/.test(key)) {
+      return NextResponse.json({
+        success: false,
+        error: 'corporateNumber (or key) is required'
+      }, { status: 400 })
+    }
+    if (recordingId && !/^[\w-]+$/.test(recordingId)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid recordingId: ${recordingId}`
+      }, { status: 400 })
+    }
+
+    const store = new RecordingStore()
+    if (recordingId) {
+      const recording = await store.get(key, recordingId)
+      if (!recording) {
+        return NextResponse.json({
+          success: false,
+          error: `Recording not found: ${key}/${recordingId}`
+        }, { status: 404 })
+      }
+      return NextResponse.json({ success: true, timestamp: new Date().toISOString(), key, recording })
+    }
+
+    const recordings = await store.list(key)
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      key,
+      count: recordings.length,
+      recordings
+    })
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
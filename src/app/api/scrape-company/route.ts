@@ -7,6 +7,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import { getPlaywrightBrowser } from '@/lib/playwright-config'
+import { SearchProviderName, createSearchChain, parseSearchProviderOrder } from '@/lib/services/searchProviders'
 
 // レスポンススキーマ
 const companySchema = z.object({
@@ -96,39 +97,29 @@ JSON以外は返さないでください:
     }
   }
   
-  async searchCompany(companyName: string, location: string = "東京"): Promise<CompanyInfo | null> {
+  async searchCompany(companyName: string, location: string = "東京", providers?: SearchProviderName[]): Promise<CompanyInfo | null> {
     const browser = await getPlaywrightBrowser()
     const page = await browser.newPage()
     
     try {
       console.log(`🔍 検索開始: ${companyName} (${location})`)
       
-      // DuckDuckGoで求人情報を検索
-      await page.goto('https://duckduckgo.com/')
-      await page.waitForTimeout(2000)
-      
+      // 求人情報を検索（DuckDuckGo → Brave → DataForSEO の順、失敗時は次のプロバイダ）
       const searchQuery = `"${companyName}" 求人 採用情報 site:indeed.com OR site:rikunabi.com OR site:mynavi.jp`
       console.log(`🔎 検索クエリ: ${searchQuery}`)
       
-      await page.fill('input[name="q"]', searchQuery)
-      await page.press('input[name="q"]', 'Enter')
-      await page.waitForTimeout(5000)
+      const { provider, results } = await createSearchChain({ page, order: providers }).search(searchQuery)
+      console.log(`🔗 検索結果リンク数: ${results.length} (${provider})`)
       
-      // 検索結果から最初の求人リンクをクリック
-      try {
-        const resultLinks = await page.locator('a[data-testid="result-title-a"]').all()
-        console.log(`🔗 検索結果リンク数: ${resultLinks.length}`)
-        
-        if (resultLinks.length > 0) {
-          const firstLink = resultLinks[0]
-          const linkText = await firstLink.textContent()
-          console.log(`🌐 クリック対象: ${linkText}`)
-          
-          await firstLink.click()
+      // 検索結果の最初の求人ページを開く
+      if (results.length > 0) {
+        console.log(`🌐 アクセス対象: ${results[0].title}`)
+        try {
+          await page.goto(results[0].url, { waitUntil: 'domcontentloaded' })
           await page.waitForTimeout(5000)
+        } catch (e) {
+          console.log('🔄 検索結果ページへのアクセス失敗')
         }
-      } catch (e) {
-        console.log('🔄 検索結果リンククリック失敗')
       }
       
       // ページ内容を取得
@@ -166,10 +157,20 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
     
+    let providers: SearchProviderName[] | undefined
+    try {
+      providers = body.providers ? parseSearchProviderOrder(body.providers) : undefined
+    } catch (providerError) {
+      return NextResponse.json({
+        success: false,
+        error: providerError instanceof Error ? providerError.message : 'Invalid providers'
+      }, { status: 400 })
+    }
+    
     console.log(`📋 対象企業: ${companyName} (${location})`)
     
     const scraper = new VercelGeminiScraper()
-    const result = await scraper.searchCompany(companyName, location)
+    const result = await scraper.searchCompany(companyName, location, providers)
     
     const endTime = Date.now()
     const executionTime = endTime - startTime
@@ -226,6 +227,7 @@ export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
   const companyName = searchParams.get('company')
   const location = searchParams.get('location') || '東京'
+  const providers = searchParams.get('providers') || undefined
   
   if (!companyName) {
     return NextResponse.json({
@@ -237,7 +239,7 @@ export async function GET(request: NextRequest) {
   // POSTメソッドと同じ処理を実行
   return POST(new NextRequest(request.url, {
     method: 'POST',
-    body: JSON.stringify({ companyName, location }),
+    body: JSON.stringify({ companyName, location, providers }),
     headers: { 'Content-Type': 'application/json' }
   }))
 }
\ No newline at end of file
@@ -0,0 +1,64 @@
+/**
+ * Search Cache API
+ * 検索結果キャッシュのヒット・ミス件数と保存件数の確認、期限切れの削除
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { searchCache, searchCacheTtlMs } from '@/lib/services/searchCache'
+import { SEARCH_PROVIDER_NAMES } from '@/lib/services/searchProviders'
+
+export async function GET() {
+  try {
+    const cache = searchCache()
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      stats: cache.getStats(),
+      entries: await cache.countEntries(),
+      ttlHours: Object.fromEntries(SEARCH_PROVIDER_NAMES.map(provider => [provider, searchCacheTtlMs(provider) / 3600000]))
+    })
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { action, provider } = body
+
+    if (provider && !SEARCH_PROVIDER_NAMES.includes(provider)) {
+      return NextResponse.json({
+        success: false,
+        error: `Unknown search provider: ${provider}. Use: ${SEARCH_PROVIDER_NAMES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    switch (action) {
+      case 'purge':
+      case 'clear': {
+        // purge: 期限切れのみ / clear: すべて削除
+        const removed = await searchCache().purge({ all: action === 'clear', provider })
+        console.log(`🗑️ 検索キャッシュ削除: ${removed}件 (${action}${provider ? `, ${provider}` : ''})`)
+        return NextResponse.json({ success: true, timestamp: new Date().toISOString(), action, provider, removed })
+      }
+
+      default:
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid action. Use: purge, clear'
+        }, { status: 400 })
+    }
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
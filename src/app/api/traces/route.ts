@@ -0,0 +1,57 @@
+/**
+ * Processing Traces API
+ * 企業ごとの処理トレース（検索・訪問ページ・AI判定・段階結果）の取得
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { TraceStore } from '@/lib/services/processingTrace'
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const key = searchParams.get('corporateNumber') || searchParams.get('key')
+    const traceId = searchParams.get('traceId') || undefined
+    const all = searchParams.get('all') === 'true'
+
+    if (!key || !/^[\w-]+$/.test(key)) {
+      return NextResponse.json({
+        success: false,
+        error: 'corporateNumber (or key) is required'
+      }, { status: 400 })
+    }
+
+    const store = new TraceStore()
+
+    // 直近の処理履歴一覧
+    if (all) {
+      const traces = await store.list(key)
+      return NextResponse.json({
+        success: true,
+        timestamp: new Date().toISOString(),
+        key,
+        traces
+      })
+    }
+
+    const trace = await store.get(key, traceId)
+    if (!trace) {
+      return NextResponse.json({
+        success: false,
+        error: traceId ? `Trace not found: ${traceId}` : `No traces for: ${key}`
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      key,
+      trace
+    })
+  } catch (error) {
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timestamp: new Date().toISOString()
+    }, { status: 500 })
+  }
+}
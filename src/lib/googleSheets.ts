@@ -29,6 +29,12 @@ export interface CSVProcessingResult {
   処理時間: number;
   取得日時: string;
   エラー: string;
+  求人情報: string; // 掲載サイト・雇用形態・職種・掲載日・URL（営業トークの切り口）
+  問い合わせフォーム: string; // メール未掲載の企業の連絡手段
+  電話種別: string; // 代表・採用・携帯・フリーダイヤル等（FAXは電話番号に載せない）
+  既存電話番号: string; // リード一覧に載っていた電話番号
+  既存電話番号検証: string; // 既存電話番号の逆引き結果（一致・不一致・未検証）
+  既存ウェブサイト: string; // リード一覧に載っていたURL
 }
 
 export class GoogleSheetsService {
@@ -101,12 +107,18 @@ export class GoogleSheetsService {
         result.処理成功 ? '成功' : '失敗',
         result.処理時間,
         result.取得日時,
-        result.エラー
+        result.エラー,
+        result.求人情報,
+        result.問い合わせフォーム,
+        result.電話種別,
+        result.既存電話番号,
+        result.既存電話番号検証,
+        result.既存ウェブサイト
       ]];
 
       await this.sheets.spreadsheets.values.append({
         spreadsheetId: process.env.GOOGLE_SHEETS_SHEET_ID!,
-        range: `${sheetName}!A:M`, // A列からM列まで（13列）
+        range: `${sheetName}!A:S`, // A列からS列まで（19列）
         valueInputOption: 'USER_ENTERED',
         requestBody: {
           values
@@ -128,12 +140,13 @@ export class GoogleSheetsService {
       const headers = [
         '処理番号', '法人番号', '企業名', '市区町村', '都道府県',
         '電話番号', 'メール', 'ウェブサイト', '信頼度', '処理成功',
-        '処理時間(ms)', '取得日時', 'エラー'
+        '処理時間(ms)', '取得日時', 'エラー', '求人情報', '問い合わせフォーム', '電話種別',
+        '既存電話番号', '既存電話番号検証', '既存ウェブサイト'
       ];
 
       await this.sheets.spreadsheets.values.update({
         spreadsheetId: process.env.GOOGLE_SHEETS_SHEET_ID!,
-        range: `${sheetName}!A1:M1`,
+        range: `${sheetName}!A1:S1`,
         valueInputOption: 'USER_ENTERED',
         requestBody: {
           values: [headers]
@@ -165,12 +178,18 @@ export class GoogleSheetsService {
         result.処理成功 ? '成功' : '失敗',
         result.処理時間,
         result.取得日時,
-        result.エラー
+        result.エラー,
+        result.求人情報,
+        result.問い合わせフォーム,
+        result.電話種別,
+        result.既存電話番号,
+        result.既存電話番号検証,
+        result.既存ウェブサイト
       ]);
 
       await this.sheets.spreadsheets.values.append({
         spreadsheetId: process.env.GOOGLE_SHEETS_SHEET_ID!,
-        range: `${sheetName}!A:M`,
+        range: `${sheetName}!A:S`,
         valueInputOption: 'USER_ENTERED',
         requestBody: {
           values
@@ -0,0 +1,225 @@
+/**
+ * Japanese Address Normalizer
+ * 住所の表記ゆれ（全角数字・漢数字・〒・ハイフン）を正規化し、都道府県／市区町村／町域／番地／建物に分解する
+ */
+
+import type { CorporateRecord } from './corporateCsvLoader'
+
+// 都道府県コード → 都道府県名
+export const PREFECTURES: Record<string, string> = {
+  '01': '北海道', '02': '青森県', '03': '岩手県', '04': '宮城県', '05': '秋田県',
+  '06': '山形県', '07': '福島県', '08': '茨城県', '09': '栃木県', '10': '群馬県',
+  '11': '埼玉県', '12': '千葉県', '13': '東京都', '14': '神奈川県', '15': '新潟県',
+  '16': '富山県', '17': '石川県', '18': '福井県', '19': '山梨県', '20': '長野県',
+  '21': '岐阜県', '22': '静岡県', '23': '愛知県', '24': '三重県', '25': '滋賀県',
+  '26': '京都府', '27': '大阪府', '28': '兵庫県', '29': '奈良県', '30': '和歌山県',
+  '31': '鳥取県', '32': '島根県', '33': '岡山県', '34': '広島県', '35': '山口県',
+  '36': '徳島県', '37': '香川県', '38': '愛媛県', '39': '高知県', '40': '福岡県',
+  '41': '佐賀県', '42': '長崎県', '43': '熊本県', '44': '大分県', '45': '宮崎県',
+  '46': '鹿児島県', '47': '沖縄県'
+}
+
+const PREFECTURE_PATTERN = new RegExp(`^(${Object.values(PREFECTURES).join('|')})`)
+
+// 区を持つ政令指定都市
+const DESIGNATED_CITIES = [
+  '札幌市', '仙台市', 'さいたま市', '千葉市', '横浜市', '川崎市', '相模原市', '新潟市', '静岡市', '浜松市',
+  '名古屋市', '京都市', '大阪市', '堺市', '神戸市', '岡山市', '広島市', '北九州市', '福岡市', '熊本市'
+]
+
+// 名称の途中に「市」を含み、最短一致で切り出せない市町村
+const IRREGULAR_MUNICIPALITIES = /^(四日市市|廿日市市|野々市市|余市郡余市町|余市郡仁木町|余市郡赤井川村)/
+
+export interface NormalizedAddress {
+  postalCode?: string
+  prefecture?: string
+  municipality?: string   // 市区町村（政令市の区・郡を含む）
+  town?: string           // 町域（丁目・番地を除く）
+  block?: string          // 丁目-番地-号（例: 1-2-3）
+  building?: string
+  normalized: string      // 建物を除いた正規化住所
+}
+
+export type AddressMatchLevel = 'block' | 'town' | 'municipality' | 'prefecture' | 'none' | 'unknown'
+
+export interface AddressMatch {
+  level: AddressMatchLevel
+  score: number           // 0-100
+}
+
+const KANJI_DIGITS: Record<string, number> = {
+  '〇': 0, '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9
+}
+const KANJI_UNITS: Record<string, number> = { '十': 10, '百': 100, '千': 1000 }
+
+/**
+ * 漢数字 → 数値（位取りあり「二十三」・なし「二三」の両方）
+ */
+export function kanjiToNumber(kanji: string): number {
+  if (!/[十百千]/.test(kanji)) {
+    return Number([...kanji].map(c => KANJI_DIGITS[c]).join(''))
+  }
+
+  let total = 0
+  let current = 0
+  for (const c of kanji) {
+    if (c in KANJI_UNITS) {
+      total += (current || 1) * KANJI_UNITS[c]
+      current = 0
+    } else {
+      current = KANJI_DIGITS[c]
+    }
+  }
+  return total + current
+}
+
+/**
+ * 文字レベルの正規化（NFKC・ハイフン統一・漢数字の丁目/番地/号を算用数字に）
+ */
+export function normalizeAddressText(text: string): string {
+  return (text || '')
+    .normalize('NFKC')
+    .replace(/[‐‑‒–—―−]/g, '-')
+    .replace(/(\d)[ーｰ](?=\d)/g, '$1-')
+    // 「一番町」「二番丁」などの町名は変換しない
+    .replace(/([〇一二三四五六七八九十百千]+)(?=丁目|番地|番(?![町丁])|号|条|線|地割)/g, (_, kanji) => String(kanjiToNumber(kanji)))
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * 都道府県・市区町村とそれ以降に分割（表記は入力のまま）
+ */
+export function splitMunicipality(address: string): { prefecture?: string, municipality?: string, rest: string } {
+  const prefMatch = address.match(PREFECTURE_PATTERN)
+  const prefecture = prefMatch?.[1]
+  let rest = prefecture ? address.slice(prefecture.length) : address
+  rest = rest.replace(/^\s+/, '')
+
+  let municipality =
+    rest.match(IRREGULAR_MUNICIPALITIES)?.[1] ??
+    rest.match(/^([^市区\s]+?郡[^市区\s]+?[町村])/)?.[1] ??
+    // 「新宿区市谷」のように町域に市を含む特別区は除外
+    rest.match(/^([^区\s]+?市)/)?.[1] ??
+    rest.match(/^([^\s]+?区)/)?.[1] ??
+    rest.match(/^([^\s]+?[町村])/)?.[1]
+
+  if (municipality && DESIGNATED_CITIES.includes(municipality)) {
+    const ward = rest.slice(municipality.length).match(/^([^\s]+?区)/)?.[1]
+    if (ward) municipality += ward
+  }
+
+  return {
+    prefecture,
+    municipality,
+    rest: municipality ? rest.slice(municipality.length) : rest
+  }
+}
+
+/**
+ * 住所文字列を構造化住所に正規化
+ */
+export function normalizeAddress(input: string): NormalizedAddress {
+  let text = normalizeAddressText(input)
+    .replace(/^(本社|本店|所在地|住所)\s*[:：]?\s*/, '')
+
+  let postalCode: string | undefined
+  const postalMatch = text.match(/〒?\s*(\d{3})-?(\d{4})\s*/)
+  if (postalMatch && (text.startsWith('〒') || postalMatch.index === 0)) {
+    postalCode = `${postalMatch[1]}${postalMatch[2]}`
+    text = text.replace(postalMatch[0], '')
+  }
+  text = text.replace(/〒/g, '').trim()
+
+  const { prefecture, municipality, rest } = splitMunicipality(text)
+
+  // 丁目・番地・号 → ハイフン区切り
+  const street = rest
+    .replace(/(\d+)丁目/g, '$1-')
+    .replace(/(\d+)番地?(?![町丁])/g, '$1-')
+    .replace(/(\d+)号/g, '$1')
+    .replace(/(\d+)の(?=\d)/g, '$1-')
+    .replace(/(\d)-+(?!\d)/g, '$1 ')
+    .replace(/-{2,}/g, '-')
+
+  const blockMatch = street.match(/^(.*?)(\d+(?:-\d+)*)(?![\d条線])(.*)$/)
+  const town = (blockMatch ? blockMatch[1] : street).replace(/\s/g, '').replace(/^大字/, '') || undefined
+  const block = blockMatch?.[2]
+  const building = blockMatch?.[3].replace(/^[\s,、-]+/, '').trim() || undefined
+
+  return {
+    postalCode,
+    prefecture,
+    municipality,
+    town,
+    block,
+    building,
+    normalized: `${prefecture || ''}${municipality || ''}${town || ''}${block || ''}`
+  }
+}
+
+/**
+ * 法人レコードの住所を正規化（都道府県・市区町村はレコードの値を優先）
+ */
+export function normalizeRecordAddress(record: CorporateRecord): NormalizedAddress {
+  const source = record.prefectureName || record.cityName
+    ? `${record.prefectureName || ''}${record.cityName || ''}${record.streetNumber || ''}`
+    : record.住所 || ''
+  const address = normalizeAddress(source)
+
+  if (record.postalCode) address.postalCode = record.postalCode.replace(/[^\d]/g, '')
+  if (record.prefectureName) address.prefecture = record.prefectureName
+  if (record.cityName) address.municipality = normalizeAddressText(record.cityName)
+  address.normalized = `${address.prefecture || ''}${address.municipality || ''}${address.town || ''}${address.block || ''}`
+
+  return address
+}
+
+// 「霞が関」「霞ヶ関」などの表記ゆれを吸収
+const townKey = (town: string): string => town.replace(/[ヶケがヵ]/g, 'ケ').replace(/之/g, 'の')
+
+/**
+ * 2つの住所の一致度（どの階層まで一致したか）
+ */
+export function compareAddresses(a: NormalizedAddress, b: NormalizedAddress): AddressMatch {
+  if (!(a.prefecture || a.municipality) || !(b.prefecture || b.municipality)) {
+    return { level: 'unknown', score: 0 }
+  }
+  if (a.prefecture && b.prefecture && a.prefecture !== b.prefecture) {
+    return { level: 'none', score: 0 }
+  }
+  if (!a.municipality || !b.municipality || a.municipality !== b.municipality) {
+    const prefectureMatched = !!a.prefecture && a.prefecture === b.prefecture
+    const municipalityDiffers = !!a.municipality && !!b.municipality
+    if (municipalityDiffers) {
+      return prefectureMatched ? { level: 'prefecture', score: 25 } : { level: 'none', score: 0 }
+    }
+    return prefectureMatched ? { level: 'prefecture', score: 25 } : { level: 'unknown', score: 0 }
+  }
+  if (!a.town || !b.town || townKey(a.town) !== townKey(b.town)) {
+    return { level: 'municipality', score: 50 }
+  }
+  if (a.block && b.block) {
+    const partsA = a.block.split('-')
+    const partsB = b.block.split('-')
+    const length = Math.min(partsA.length, partsB.length)
+    if (partsA.slice(0, length).join('-') === partsB.slice(0, length).join('-')) {
+      return { level: 'block', score: 100 }
+    }
+  }
+  return { level: 'town', score: 75 }
+}
+
+/**
+ * 検索クエリ用の地域語（同名市区町村を区別するため都道府県を付ける）
+ */
+export function addressQueryTerm(address: NormalizedAddress): string {
+  return `${address.prefecture || ''}${address.municipality || ''}`
+}
+
+/**
+ * 重複判定キー用の地域（市区町村単位、分解できなければ正規化文字列）
+ */
+export function addressKey(address: NormalizedAddress): string {
+  return address.municipality || address.prefecture || address.normalized.replace(/\s/g, '')
+}
@@ -0,0 +1,20 @@
+/**
+ * Atomic File
+ * 一時ファイルへ書き出してから置き換える（途中で停止しても書きかけのファイルを残さない）
+ */
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+  const tempPath = `${filePath}.${process.pid}.${crypto.randomUUID().substring(0, 8)}.tmp`
+  try {
+    await fs.promises.writeFile(tempPath, data)
+    await fs.promises.rename(tempPath, filePath)
+  } catch (error) {
+    await fs.promises.unlink(tempPath).catch(() => undefined)
+    throw error
+  }
+}
@@ -3,6 +3,11 @@
  * Provides search capabilities for enterprise information validation
  */
 
+import { budgetManager } from './budgetManager';
+import { rateLimiterFor } from './rateLimiter';
+import { replayable } from './replayRecorder';
+import { searchCache } from './searchCache';
+
 export interface BraveSearchResult {
   title: string;
   url: string;
@@ -17,6 +22,25 @@ export interface SearchResponse {
   hasMoreResults?: boolean;
 }
 
+export interface BraveSearchOptions {
+  count?: number;
+  country?: string;
+  search_lang?: string;
+  result_filter?: 'web' | 'videos' | 'discussions' | 'faq' | 'infobox' | 'locations' | 'summarizer';
+  freshness?: string;
+  offset?: number;
+}
+
+/**
+ * Non-2xx response from the Brave API (429 = rate limited, 402 = plan quota exhausted)
+ */
+export class BraveApiError extends Error {
+  constructor(readonly status: number, statusText: string) {
+    super(`Brave API Error: ${status} ${statusText}`);
+    this.name = 'BraveApiError';
+  }
+}
+
 export class BraveSearchTool {
   private readonly baseUrl = 'https://api.search.brave.com/res/v1';
   private readonly apiKey = process.env.BRAVE_API_KEY;
@@ -28,19 +52,25 @@ export class BraveSearchTool {
   }
 
   /**
-   * General web search function
+   * General web search function (returns no results on failure)
    */
-  async braveSearch(
-    query: string, 
-    options: {
-      count?: number;
-      country?: string;
-      search_lang?: string;
-      result_filter?: 'web' | 'videos' | 'discussions' | 'faq' | 'infobox' | 'locations' | 'summarizer';
-      freshness?: string;
-      offset?: number;
-    } = {}
-  ): Promise<SearchResponse> {
+  async braveSearch(query: string, options: BraveSearchOptions = {}): Promise<SearchResponse> {
+    try {
+      return await this.search(query, options);
+    } catch (error) {
+      console.error('Brave Search Error:', error);
+      return {
+        query,
+        results: [],
+        hasMoreResults: false
+      };
+    }
+  }
+
+  /**
+   * Web search that throws BraveApiError on failure
+   */
+  async search(query: string, options: BraveSearchOptions = {}): Promise<SearchResponse> {
     const params = new URLSearchParams({
       q: query,
       count: String(Math.min(options.count || 10, 20)),
@@ -51,50 +81,76 @@ export class BraveSearchTool {
       ...(options.offset !== undefined && { offset: String(Math.min(options.offset, 9)) })
     });
 
-    try {
-      const response = await fetch(`${this.baseUrl}/web/search?${params}`, {
-        headers: {
-          'X-Subscription-Token': this.apiKey!,
-          'Accept': 'application/json',
-          'Accept-Encoding': 'gzip',
-          'User-Agent': 'Mozilla/5.0 (compatible; sales-automation-bot/1.0)'
-        }
-      });
+    // Cached per query and options; served from the recording when recording or replaying a company run.
+    // Only actual API calls go through the rate limiter shared across workers and count against the budget
+    // (BudgetExceededError once a configured limit or the monthly quota is used up).
+    const { q, ...requestOptions } = Object.fromEntries(params);
+    return searchCache().getOrFetch('brave', q, requestOptions, () =>
+      replayable('brave', params.toString(), () =>
+        rateLimiterFor('brave').schedule(() => budgetManager().charge('brave', () => this.fetchSearch(query, params)))
+      )
+    );
+  }
 
-      if (!response.ok) {
-        const rateLimitRemaining = response.headers.get('X-RateLimit-Remaining');
-        const rateLimitReset = response.headers.get('X-RateLimit-Reset');
-        
-        if (response.status === 429) {
-          console.warn('Rate limit exceeded. Remaining:', rateLimitRemaining, 'Reset:', rateLimitReset);
-        }
-        
-        throw new Error(`Brave API Error: ${response.status} ${response.statusText}`);
+  private async fetchSearch(query: string, params: URLSearchParams): Promise<SearchResponse> {
+    const response = await fetch(`${this.baseUrl}/web/search?${params}`, {
+      headers: {
+        'X-Subscription-Token': this.apiKey!,
+        'Accept': 'application/json',
+        'Accept-Encoding': 'gzip',
+        'User-Agent': 'Mozilla/5.0 (compatible; sales-automation-bot/1.0)'
       }
+    });
 
-      this.updateRateLimitInfo(response.headers);
+    await this.updateQuota(response.headers);
 
-      const data = await response.json();
+    if (!response.ok) {
+      const rateLimitRemaining = response.headers.get('X-RateLimit-Remaining');
+      const rateLimitReset = response.headers.get('X-RateLimit-Reset');
       
-      return {
-        query: data.query?.original || query,
-        results: data.web?.results?.map((result: any) => ({
-          title: result.title || '',
-          url: result.url || '',
-          description: result.description || '',
-          published: this.extractPublishedDate(result),
-          language: result.language || undefined
-        })) || [],
-        hasMoreResults: data.query?.more_results_available || false
-      };
+      if (response.status === 429) {
+        console.warn('Rate limit exceeded. Remaining:', rateLimitRemaining, 'Reset:', rateLimitReset);
+      }
+      
+      throw new BraveApiError(response.status, response.statusText);
+    }
+
+    const data = await response.json();
+    
+    return {
+      query: data.query?.original || query,
+      results: data.web?.results?.map((result: any) => ({
+        title: result.title || '',
+        url: result.url || '',
+        description: result.description || '',
+        published: this.extractPublishedDate(result),
+        language: result.language || undefined
+      })) || [],
+      hasMoreResults: data.query?.more_results_available || false
+    };
+  }
+
+  /**
+   * Record the monthly quota from the rate limit headers ("<per second>, <per month>")
+   */
+  private async updateQuota(headers: Headers): Promise<void> {
+    const monthly = (name: string) => {
+      const value = parseInt(headers.get(name)?.split(',')[1]?.trim() ?? '');
+      return Number.isFinite(value) ? value : undefined;
+    };
+    const monthlyLimit = monthly('X-RateLimit-Limit');
+    const monthlyRemaining = monthly('X-RateLimit-Remaining');
+    const resetSeconds = monthly('X-RateLimit-Reset');
+    if (monthlyLimit === undefined && monthlyRemaining === undefined) return;
 
+    try {
+      await budgetManager().updateQuota('brave', {
+        monthlyLimit,
+        monthlyRemaining,
+        resetsAt: resetSeconds !== undefined ? new Date(Date.now() + resetSeconds * 1000).toISOString() : undefined
+      });
     } catch (error) {
-      console.error('Brave Search Error:', error);
-      return {
-        query,
-        results: [],
-        hasMoreResults: false
-      };
+      console.warn('Failed to record Brave quota:', error);
     }
   }
 
@@ -123,8 +179,6 @@ export class BraveSearchTool {
 
     for (const query of queries) {
       try {
-        await this.rateLimitDelay();
-        
         const result = await this.braveSearch(query.trim(), { 
           count: 10,
           country: 'JP',
@@ -198,8 +252,6 @@ export class BraveSearchTool {
     // 基本検索
     for (const query of basicQueries) {
       try {
-        await this.rateLimitDelay();
-        
         const result = await this.braveSearch(query, {
           count: 5,
           country: 'JP',
@@ -249,8 +301,6 @@ export class BraveSearchTool {
 
     for (const query of businessQueries) {
       try {
-        await this.rateLimitDelay();
-        
         const result = await this.braveSearch(query, {
           count: 3,
           country: 'JP',
@@ -290,33 +340,6 @@ export class BraveSearchTool {
     return businessSites.some(site => url.includes(site));
   }
 
-  private rateLimitInfo: { rps: number; monthly: number; lastUpdate: number } = {
-    rps: 1,
-    monthly: 10000,
-    lastUpdate: 0
-  };
-
-  /**
-   * Update rate limit info from response headers
-   */
-  private updateRateLimitInfo(headers: Headers): void {
-    const limitHeader = headers.get('X-RateLimit-Limit');
-    if (limitHeader) {
-      const [rps, monthly] = limitHeader.split(', ').map(v => parseInt(v.trim()));
-      if (rps && monthly) {
-        this.rateLimitInfo = { rps, monthly, lastUpdate: Date.now() };
-      }
-    }
-  }
-
-  /**
-   * Dynamic rate limiting
-   */
-  async rateLimitDelay(): Promise<void> {
-    const delayMs = Math.ceil(1000 / this.rateLimitInfo.rps);
-    await new Promise(resolve => setTimeout(resolve, delayMs));
-  }
-
   /**
    * Extract published date with fallback logic
    */
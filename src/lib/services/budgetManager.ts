@@ -0,0 +1,409 @@
+/**
+ * Budget Manager
+ * 有料API（Brave・DataForSEO・Gemini）の呼び出し回数と推定費用を日次・月次・キャンペーン別に記録し、上限に達したら切り替え・一時停止する
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { writeFileAtomic } from './atomicFile'
+import { currentTrace } from './processingTrace'
+import type { SearchProviderName } from './searchProviders'
+
+export type BudgetProvider = SearchProviderName | 'gemini'
+
+export const BUDGET_PROVIDERS: BudgetProvider[] = ['duckduckgo', 'brave', 'dataforseo', 'gemini']
+
+export interface UsageCounter {
+  calls: number
+  cost: number        // 推定費用（USD）
+}
+
+// 上限到達時の動作（fallback: 次の検索プロバイダへ切り替え / pause: キューを一時停止）
+export type BudgetAction = 'fallback' | 'pause'
+
+export interface ProviderLimit {
+  dailyCalls?: number
+  monthlyCalls?: number
+  dailyCost?: number
+  monthlyCost?: number
+  onExceed?: BudgetAction   // 既定: 検索プロバイダは fallback、Gemini は代替がないため pause
+}
+
+export interface BudgetLimits {
+  providers: Partial<Record<BudgetProvider, ProviderLimit>>
+  dailyCost?: number                  // 全プロバイダ合計
+  monthlyCost?: number
+  campaignCost?: number               // キャンペーンごとの累計（個別指定がない場合）
+  campaigns?: Record<string, number>  // キャンペーン個別の累計
+}
+
+// プロバイダが応答ヘッダで返す月間クォータ（Brave の X-RateLimit-*）
+export interface ProviderQuota {
+  monthlyLimit?: number
+  monthlyRemaining?: number
+  resetsAt?: string
+  updatedAt: string
+}
+
+type UsageByProvider = Partial<Record<BudgetProvider, UsageCounter>>
+
+interface BudgetState {
+  daily: Record<string, UsageByProvider>      // YYYY-MM-DD（UTC）
+  monthly: Record<string, UsageByProvider>    // YYYY-MM（UTC）
+  campaigns: Record<string, UsageByProvider>
+  quotas: Partial<Record<BudgetProvider, ProviderQuota>>
+  limits: BudgetLimits
+}
+
+export interface BudgetSnapshot {
+  day: string
+  month: string
+  providers: Record<BudgetProvider, {
+    today: UsageCounter
+    month: UsageCounter
+    costPerCall: number
+    limit?: ProviderLimit
+    quota?: ProviderQuota
+    exceeded: string | null
+  }>
+  total: { today: UsageCounter, month: UsageCounter }
+  campaigns: Record<string, { total: UsageCounter, byProvider: UsageByProvider, limit?: number }>
+  limits: BudgetLimits
+  pausedReason: string | null
+}
+
+export class BudgetExceededError extends Error {
+  constructor(readonly provider: BudgetProvider, readonly action: BudgetAction, reason: string) {
+    super(`Budget exceeded: ${reason}`)
+    this.name = 'BudgetExceededError'
+  }
+}
+
+/**
+ * 企業の処理を止めて上限の変更後に再開する予算超過か（fallback はプロバイダの切り替えで続行）
+ */
+export function isBudgetPause(error: unknown): error is BudgetExceededError {
+  return error instanceof BudgetExceededError && error.action === 'pause'
+}
+
+// 記録ファイルが壊れている・読めない（上書きせず、修復されるまで有料APIを止める）
+export class BudgetStateError extends Error {
+  constructor(readonly filePath: string, cause: string) {
+    super(`Budget file is unreadable (${filePath}): ${cause}`)
+    this.name = 'BudgetStateError'
+  }
+}
+
+const DEFAULT_BUDGET_FILE = path.join(process.cwd(), 'data', 'budget.json')
+
+// 1回あたりの推定費用（USD、環境変数 BUDGET_COST_<PROVIDER> で上書き）
+// DataForSEO は応答の cost、Gemini はトークン数から算出できた場合はそちらを使う
+const DEFAULT_COST_PER_CALL: Record<BudgetProvider, number> = {
+  duckduckgo: 0,
+  brave: 0.005,
+  dataforseo: 0.002,
+  gemini: 0.002
+}
+
+const DEFAULT_ACTIONS: Record<BudgetProvider, BudgetAction> = {
+  duckduckgo: 'fallback',
+  brave: 'fallback',
+  dataforseo: 'fallback',
+  gemini: 'pause'
+}
+
+const DAILY_RETENTION = 62
+const MONTHLY_RETENTION = 24
+
+export function costPerCall(provider: BudgetProvider): number {
+  const override = parseFloat(process.env[`BUDGET_COST_${provider.toUpperCase()}`] ?? '')
+  return Number.isFinite(override) && override >= 0 ? override : DEFAULT_COST_PER_CALL[provider]
+}
+
+/**
+ * Gemini のトークン数からの推定費用（100万トークンあたりの単価は GEMINI_INPUT_COST_PER_MTOK / GEMINI_OUTPUT_COST_PER_MTOK）
+ */
+export function geminiCost(usage: { promptTokenCount?: number, candidatesTokenCount?: number } | undefined): number | undefined {
+  if (!usage?.promptTokenCount) return undefined
+  const inputPrice = parseFloat(process.env.GEMINI_INPUT_COST_PER_MTOK || '1.25')
+  const outputPrice = parseFloat(process.env.GEMINI_OUTPUT_COST_PER_MTOK || '5')
+  return (usage.promptTokenCount * inputPrice + (usage.candidatesTokenCount ?? 0) * outputPrice) / 1_000_000
+}
+
+export class BudgetManager {
+  private writing: Promise<unknown> = Promise.resolve()
+
+  constructor(private readonly filePath: string = DEFAULT_BUDGET_FILE) {}
+
+  /**
+   * 上限内なら呼び出して記録（上限到達時は呼び出さずに BudgetExceededError）
+   * 失敗した呼び出しは課金されないものとして記録しない
+   */
+  async charge<T>(provider: BudgetProvider, call: () => Promise<T>, cost?: (result: T) => number | undefined): Promise<T> {
+    const campaignId = currentTrace()?.campaignId
+    let state: BudgetState
+    try {
+      state = await this.load()
+    } catch (error) {
+      throw new BudgetExceededError(provider, 'pause', error instanceof Error ? error.message : String(error))
+    }
+    const exceeded = this.providerExceeded(state, provider)
+    if (exceeded) throw new BudgetExceededError(provider, this.actionFor(state, provider), exceeded)
+    // 無料のプロバイダは全体・キャンペーンの上限に関係なく使う
+    if (costPerCall(provider) > 0) {
+      const paused = this.pauseReasonIn(state, campaignId)
+      if (paused) throw new BudgetExceededError(provider, 'pause', paused)
+    }
+
+    const result = await call()
+    try {
+      await this.record(provider, cost?.(result) ?? costPerCall(provider), campaignId)
+    } catch (error) {
+      // 呼び出し済みの結果は返す（記録できない状態は pauseReason で停止する）
+      console.warn('⚠️ 予算記録エラー:', error instanceof Error ? error.message : error)
+    }
+    return result
+  }
+
+  /**
+   * 呼び出し1回分の記録
+   */
+  async record(provider: BudgetProvider, cost: number = costPerCall(provider), campaignId?: string): Promise<void> {
+    await this.update(state => {
+      const now = new Date()
+      add(state.daily[dayKey(now)] ??= {}, provider, cost)
+      add(state.monthly[monthKey(now)] ??= {}, provider, cost)
+      if (campaignId) add(state.campaigns[campaignId] ??= {}, provider, cost)
+    })
+  }
+
+  /**
+   * 応答ヘッダから取得した月間クォータの反映
+   */
+  async updateQuota(provider: BudgetProvider, quota: Omit<ProviderQuota, 'updatedAt'>): Promise<void> {
+    await this.update(state => {
+      state.quotas[provider] = { ...quota, updatedAt: new Date().toISOString() }
+    })
+  }
+
+  async setLimits(limits: BudgetLimits): Promise<BudgetLimits> {
+    validateLimits(limits)
+    await this.update(state => {
+      state.limits = { ...limits, providers: limits.providers ?? {} }
+    })
+    return (await this.load()).limits
+  }
+
+  /**
+   * キューを一時停止すべき理由（全体・キャンペーンの費用上限、代替のないプロバイダの上限。なければ null）
+   */
+  async pauseReason(campaignId?: string): Promise<string | null> {
+    try {
+      return this.pauseReasonIn(await this.load(), campaignId)
+    } catch (error) {
+      // 記録を読めない間は費用を把握できないため停止する
+      return error instanceof Error ? error.message : String(error)
+    }
+  }
+
+  async getSnapshot(): Promise<BudgetSnapshot> {
+    const state = await this.load()
+    const now = new Date()
+    const today = state.daily[dayKey(now)] ?? {}
+    const month = state.monthly[monthKey(now)] ?? {}
+
+    const providers = Object.fromEntries(BUDGET_PROVIDERS.map(provider => [provider, {
+      today: today[provider] ?? emptyCounter(),
+      month: month[provider] ?? emptyCounter(),
+      costPerCall: costPerCall(provider),
+      limit: state.limits.providers[provider],
+      quota: state.quotas[provider],
+      exceeded: this.providerExceeded(state, provider)
+    }])) as BudgetSnapshot['providers']
+
+    const campaigns = Object.fromEntries(Object.entries(state.campaigns).map(([campaignId, usage]) => [campaignId, {
+      total: sum(usage),
+      byProvider: usage,
+      limit: state.limits.campaigns?.[campaignId] ?? state.limits.campaignCost
+    }]))
+
+    return {
+      day: dayKey(now),
+      month: monthKey(now),
+      providers,
+      total: { today: sum(today), month: sum(month) },
+      campaigns,
+      limits: state.limits,
+      pausedReason: this.pauseReasonIn(state)
+    }
+  }
+
+  private providerExceeded(state: BudgetState, provider: BudgetProvider): string | null {
+    const now = new Date()
+    const today = state.daily[dayKey(now)]?.[provider] ?? emptyCounter()
+    const month = state.monthly[monthKey(now)]?.[provider] ?? emptyCounter()
+    const limit = state.limits.providers[provider]
+
+    if (limit?.dailyCalls !== undefined && today.calls >= limit.dailyCalls) return `${provider} 日次呼び出し上限 (${today.calls}/${limit.dailyCalls})`
+    if (limit?.monthlyCalls !== undefined && month.calls >= limit.monthlyCalls) return `${provider} 月次呼び出し上限 (${month.calls}/${limit.monthlyCalls})`
+    if (limit?.dailyCost !== undefined && today.cost >= limit.dailyCost) return `${provider} 日次費用上限 ($${round(today.cost)}/$${limit.dailyCost})`
+    if (limit?.monthlyCost !== undefined && month.cost >= limit.monthlyCost) return `${provider} 月次費用上限 ($${round(month.cost)}/$${limit.monthlyCost})`
+
+    // プロバイダ側の月間クォータ（リセット時刻を過ぎたら残数は不明として扱う）
+    const quota = state.quotas[provider]
+    if (quota?.monthlyRemaining !== undefined && quota.monthlyRemaining <= 0 &&
+        (!quota.resetsAt || Date.parse(quota.resetsAt) > now.getTime())) {
+      return `${provider} 月間クォータ切れ (上限${quota.monthlyLimit ?? '-'}回${quota.resetsAt ? `, ${quota.resetsAt}にリセット` : ''})`
+    }
+    return null
+  }
+
+  private pauseReasonIn(state: BudgetState, campaignId?: string): string | null {
+    const now = new Date()
+    const today = sum(state.daily[dayKey(now)] ?? {})
+    const month = sum(state.monthly[monthKey(now)] ?? {})
+    const { limits } = state
+
+    if (limits.dailyCost !== undefined && today.cost >= limits.dailyCost) return `全体の日次費用上限 ($${round(today.cost)}/$${limits.dailyCost})`
+    if (limits.monthlyCost !== undefined && month.cost >= limits.monthlyCost) return `全体の月次費用上限 ($${round(month.cost)}/$${limits.monthlyCost})`
+
+    if (campaignId) {
+      const campaignLimit = limits.campaigns?.[campaignId] ?? limits.campaignCost
+      const spent = sum(state.campaigns[campaignId] ?? {})
+      if (campaignLimit !== undefined && spent.cost >= campaignLimit) {
+        return `キャンペーン ${campaignId} の費用上限 ($${round(spent.cost)}/$${campaignLimit})`
+      }
+    }
+
+    for (const provider of BUDGET_PROVIDERS) {
+      if (this.actionFor(state, provider) !== 'pause') continue
+      const exceeded = this.providerExceeded(state, provider)
+      if (exceeded) return exceeded
+    }
+    return null
+  }
+
+  private actionFor(state: BudgetState, provider: BudgetProvider): BudgetAction {
+    return state.limits.providers[provider]?.onExceed ?? DEFAULT_ACTIONS[provider]
+  }
+
+  /**
+   * 記録の読み込み（未作成のみ記録なしとして扱い、壊れたファイルは BudgetStateError）
+   */
+  private async load(): Promise<BudgetState> {
+    let text: string
+    try {
+      text = await fs.promises.readFile(this.filePath, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { daily: {}, monthly: {}, campaigns: {}, quotas: {}, limits: { providers: {} } }
+      }
+      throw new BudgetStateError(this.filePath, error instanceof Error ? error.message : String(error))
+    }
+
+    let state: Partial<BudgetState>
+    try {
+      state = JSON.parse(text)
+    } catch (error) {
+      throw new BudgetStateError(this.filePath, error instanceof Error ? error.message : String(error))
+    }
+    return {
+      daily: state.daily ?? {},
+      monthly: state.monthly ?? {},
+      campaigns: state.campaigns ?? {},
+      quotas: state.quotas ?? {},
+      limits: { ...state.limits, providers: state.limits?.providers ?? {} }
+    }
+  }
+
+  /**
+   * 読み込み→変更→書き込みを直列に実行（並列ワーカーの記録を取りこぼさない）
+   */
+  private update(mutate: (state: BudgetState) => void): Promise<void> {
+    const run = async () => {
+      const state = await this.load()
+      mutate(state)
+      prune(state.daily, DAILY_RETENTION)
+      prune(state.monthly, MONTHLY_RETENTION)
+      await writeFileAtomic(this.filePath, JSON.stringify(state, null, 2))
+    }
+    const next = this.writing.then(run, run)
+    this.writing = next.catch(() => undefined)
+    return next
+  }
+}
+
+/**
+ * 上限設定の検証（数値は0以上、onExceed は fallback / pause）
+ */
+export function validateLimits(limits: BudgetLimits): void {
+  const checkAmount = (name: string, value: unknown) => {
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      throw new Error(`Invalid budget limit ${name}: ${value}`)
+    }
+  }
+
+  checkAmount('dailyCost', limits.dailyCost)
+  checkAmount('monthlyCost', limits.monthlyCost)
+  checkAmount('campaignCost', limits.campaignCost)
+  for (const [campaignId, value] of Object.entries(limits.campaigns ?? {})) {
+    checkAmount(`campaigns.${campaignId}`, value)
+  }
+  for (const [provider, limit] of Object.entries(limits.providers ?? {})) {
+    if (!BUDGET_PROVIDERS.includes(provider as BudgetProvider)) {
+      throw new Error(`Unknown budget provider: ${provider}. Use: ${BUDGET_PROVIDERS.join(', ')}`)
+    }
+    for (const key of ['dailyCalls', 'monthlyCalls', 'dailyCost', 'monthlyCost'] as const) {
+      checkAmount(`${provider}.${key}`, limit?.[key])
+    }
+    if (limit?.onExceed !== undefined && limit.onExceed !== 'fallback' && limit.onExceed !== 'pause') {
+      throw new Error(`Invalid onExceed for ${provider}: ${limit.onExceed}. Use: fallback, pause`)
+    }
+  }
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().substring(0, 10)
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().substring(0, 7)
+}
+
+function emptyCounter(): UsageCounter {
+  return { calls: 0, cost: 0 }
+}
+
+function add(usage: UsageByProvider, provider: BudgetProvider, cost: number): void {
+  const counter = usage[provider] ??= emptyCounter()
+  counter.calls++
+  counter.cost += cost
+}
+
+function sum(usage: UsageByProvider): UsageCounter {
+  const total = emptyCounter()
+  for (const counter of Object.values(usage)) {
+    total.calls += counter?.calls ?? 0
+    total.cost += counter?.cost ?? 0
+  }
+  return total
+}
+
+function prune(periods: Record<string, UsageByProvider>, keep: number): void {
+  const keys = Object.keys(periods).sort()
+  for (const key of keys.slice(0, Math.max(0, keys.length - keep))) delete periods[key]
+}
+
+function round(cost: number): number {
+  return Math.round(cost * 10000) / 10000
+}
+
+let sharedManager: BudgetManager | null = null
+
+/**
+ * プロセス内で共有するマネージャー（書き込みを直列化するため同じインスタンスを使う）
+ */
+export function budgetManager(): BudgetManager {
+  sharedManager ??= new BudgetManager()
+  return sharedManager
+}
@@ -0,0 +1,199 @@
+/**
+ * Company Target Filter
+ * 営業対象の法人を地域・法人種別・指定日・郵便番号・名称で絞り込む宣言的フィルタ
+ */
+
+import { CorporateRecord } from './corporateCsvLoader'
+
+export interface CompanyFilter {
+  prefectureCodes?: string[]       // 都道府県コード（例: 01, 13）
+  cityCodes?: string[]             // 市区町村コード（3桁 or 都道府県込み5桁）
+  kinds?: string[]                 // 法人種別（例: 301 株式会社）
+  assignmentDateFrom?: string      // 法人番号指定年月日（YYYY-MM-DD, 以降）
+  assignmentDateTo?: string        // 法人番号指定年月日（YYYY-MM-DD, 以前）
+  postalCodePrefixes?: string[]    // 郵便番号の前方一致
+  namePatterns?: string[]          // 法人名パターン（* ワイルドカード or /正規表現/）
+  excludeNamePatterns?: string[]   // 除外する法人名パターン
+  includeClosed?: boolean          // 閉鎖法人を含める（既定: 承継先のない閉鎖法人は除外）
+  includeHidden?: boolean          // 検索対象除外（hihyoji）を含める（既定: 除外）
+}
+
+// 法人種別コード
+export const KIND_CODES: Record<string, string> = {
+  '101': '国の機関',
+  '201': '地方公共団体',
+  '301': '株式会社',
+  '302': '有限会社',
+  '303': '合名会社',
+  '304': '合資会社',
+  '305': '合同会社',
+  '399': 'その他の設立登記法人',
+  '401': '外国会社等',
+  '499': 'その他'
+}
+
+const KIND_NAMES: Record<string, string> = Object.fromEntries(
+  Object.entries(KIND_CODES).map(([code, name]) => [name, code])
+)
+
+const listValue = (value: string): string[] =>
+  value.split(',').map(v => v.trim()).filter(Boolean)
+
+/**
+ * 簡易フィルタ式のパース（クエリパラメータ用）
+ * 例: "pref:01,13 kind:株式会社 assigned:2015-01-01..2020-12-31 postal:060 name:*建設* -name:*不動産*"
+ */
+export function parseFilterExpression(expression: string): CompanyFilter {
+  const filter: CompanyFilter = {}
+
+  for (const token of expression.trim().split(/\s+/).filter(Boolean)) {
+    const separator = token.indexOf(':')
+    if (separator < 0) {
+      throw new Error(`Invalid filter token: ${token}`)
+    }
+    const key = token.slice(0, separator).toLowerCase()
+    const value = token.slice(separator + 1)
+
+    switch (key) {
+      case 'pref':
+      case 'prefecture':
+        filter.prefectureCodes = listValue(value).map(code => code.padStart(2, '0'))
+        break
+      case 'city':
+        filter.cityCodes = listValue(value)
+        break
+      case 'kind':
+        filter.kinds = listValue(value).map(kind => KIND_NAMES[kind] || kind)
+        break
+      case 'assigned': {
+        const [from, to] = value.split('..')
+        if (from) filter.assignmentDateFrom = from
+        if (to) filter.assignmentDateTo = to
+        break
+      }
+      case 'postal':
+        filter.postalCodePrefixes = listValue(value)
+        break
+      case 'name':
+        filter.namePatterns = [...(filter.namePatterns || []), ...listValue(value)]
+        break
+      case '-name':
+        filter.excludeNamePatterns = [...(filter.excludeNamePatterns || []), ...listValue(value)]
+        break
+      case 'closed':
+        filter.includeClosed = value === 'include'
+        break
+      case 'hidden':
+        filter.includeHidden = value === 'include'
+        break
+      default:
+        throw new Error(`Unknown filter key: ${key}`)
+    }
+  }
+
+  return filter
+}
+
+/**
+ * APIリクエストの filter（オブジェクト or フィルタ式）を正規化
+ */
+export function normalizeFilter(input: unknown): CompanyFilter | undefined {
+  if (input === undefined || input === null || input === '') return undefined
+  if (typeof input === 'string') return validateNamePatterns(parseFilterExpression(input))
+  if (typeof input === 'object') {
+    const filter = { ...(input as CompanyFilter) }
+    if (filter.kinds) filter.kinds = filter.kinds.map(kind => KIND_NAMES[kind] || kind)
+    return validateNamePatterns(filter)
+  }
+  throw new Error('filter must be an object or a filter expression string')
+}
+
+/**
+ * 名称パターンを事前にコンパイル（不正な /正規表現/ は処理中ではなく受け付け時にエラー）
+ */
+function validateNamePatterns(filter: CompanyFilter): CompanyFilter {
+  for (const pattern of [...filter.namePatterns ?? [], ...filter.excludeNamePatterns ?? []]) {
+    try {
+      toNameRegExp(pattern)
+    } catch (error) {
+      throw new Error(`Invalid name pattern: ${pattern} (${error instanceof Error ? error.message : error})`)
+    }
+  }
+  return filter
+}
+
+/**
+ * 同じ条件のフィルタか（項目の順序・未指定の項目は区別しない）
+ */
+export function sameFilter(a?: CompanyFilter, b?: CompanyFilter): boolean {
+  const canonical = (filter?: CompanyFilter): string => JSON.stringify(
+    Object.entries(filter ?? {})
+      .filter(([, value]) => value !== undefined)
+      .sort(([left], [right]) => left.localeCompare(right))
+  )
+  return canonical(a) === canonical(b)
+}
+
+/**
+ * 名称パターン → 正規表現（/.../ はそのまま、それ以外は * ワイルドカード）
+ */
+function toNameRegExp(pattern: string): RegExp {
+  const regexLiteral = pattern.match(/^\/(.+)\/([a-z]*)$/)
+  if (regexLiteral) return new RegExp(regexLiteral[1], regexLiteral[2])
+
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+  return new RegExp(pattern.includes('*') ? `^${escaped}$` : escaped)
+}
+
+const toDateKey = (value?: string): string => (value || '').replace(/[^\d]/g, '').slice(0, 8)
+
+/**
+ * 対象外の理由を返す（対象ならnull）
+ */
+export function filterRejectionReason(record: CorporateRecord, filter: CompanyFilter = {}): string | null {
+  // 承継先のある閉鎖法人は存続法人へ付け替えて処理するため対象に残す
+  if (!filter.includeClosed && record.closeDate && !record.successorCorporateNumber) {
+    return '対象外: 閉鎖法人'
+  }
+  if (!filter.includeHidden && record.hihyoji === '1') {
+    return '対象外: 検索対象除外'
+  }
+  if (filter.prefectureCodes?.length && !filter.prefectureCodes.includes(record.prefectureCode || '')) {
+    return '対象外: 都道府県'
+  }
+  if (filter.cityCodes?.length) {
+    const fullCityCode = `${record.prefectureCode || ''}${record.cityCode || ''}`
+    if (!filter.cityCodes.some(code => code === record.cityCode || code === fullCityCode)) {
+      return '対象外: 市区町村'
+    }
+  }
+  if (filter.kinds?.length && !filter.kinds.includes(record.kind || '')) {
+    return '対象外: 法人種別'
+  }
+  if (filter.assignmentDateFrom || filter.assignmentDateTo) {
+    const assigned = toDateKey(record.assignmentDate)
+    if (!assigned) return '対象外: 法人番号指定年月日なし'
+    if (filter.assignmentDateFrom && assigned < toDateKey(filter.assignmentDateFrom)) return '対象外: 法人番号指定年月日'
+    if (filter.assignmentDateTo && assigned > toDateKey(filter.assignmentDateTo)) return '対象外: 法人番号指定年月日'
+  }
+  if (filter.postalCodePrefixes?.length) {
+    const postalCode = (record.postalCode || '').replace(/[^\d]/g, '')
+    if (!filter.postalCodePrefixes.some(prefix => postalCode.startsWith(prefix.replace(/[^\d]/g, '')))) {
+      return '対象外: 郵便番号'
+    }
+  }
+
+  const name = record.corporateName || record.法人名 || ''
+  if (filter.namePatterns?.length && !filter.namePatterns.some(p => toNameRegExp(p).test(name))) {
+    return '対象外: 法人名'
+  }
+  if (filter.excludeNamePatterns?.some(p => toNameRegExp(p).test(name))) {
+    return '対象外: 除外法人名'
+  }
+
+  return null
+}
+
+export function matchesFilter(record: CorporateRecord, filter: CompanyFilter = {}): boolean {
+  return filterRejectionReason(record, filter) === null
+}
@@ -6,6 +6,8 @@
 import { GoogleGenerativeAI, FunctionDeclaration } from '@google/generative-ai';
 import { DataForSeoService, ContactInfo } from './dataForSeoService';
 import { BraveSearchTool, braveSearchFunctions } from './braveSearchTool';
+import { ContactPoint, createContactPoint, mergeContactPoints, selectPrimaryContacts } from './contactPoints';
+import { classifyByNumber } from './phoneClassifier';
 
 export interface CompanyInfo {
   company: string;
@@ -13,6 +15,8 @@ export interface CompanyInfo {
   phone?: string;
   email?: string;
   website?: string;
+  // 解析した全ページの連絡先（phone / email / website は代表の1件）
+  contactPoints?: ContactPoint[];
   verified: boolean;
   verification: {
     phoneVerified: boolean;
@@ -236,11 +240,14 @@ export class CompanyVerificationService {
         website: ''
       };
 
+      let contactPoints: ContactPoint[] = [];
+
       // 2. ページ解析（上位3サイト）
       for (const url of serpResults.slice(0, 3)) {
         try {
           const pageContent = await this.dataForSeo.parseContent(url);
           const extractedInfo = this.dataForSeo.extractContactInfo(pageContent);
+          contactPoints = mergeContactPoints(contactPoints, this.toContactPoints(extractedInfo, url));
           
           // より詳細な情報があれば更新
           if (extractedInfo.company && !contactInfo.company) contactInfo.company = extractedInfo.company;
@@ -262,6 +269,14 @@ export class CompanyVerificationService {
         phoneVerification = await this.braveSearch.verifyPhoneNumber(contactInfo.phone, company);
       }
 
+      if (phoneVerification?.phoneFound) {
+        const verifiedPoint = contactPoints.find(point => point.type === 'phone' && point.value === contactInfo.phone);
+        if (verifiedPoint) {
+          verifiedPoint.phoneVerified = true;
+          verifiedPoint.lastVerifiedAt = new Date().toISOString();
+        }
+      }
+
       // 4. 信頼性スコア算出
       const confidence = this.calculateConfidence({
         companyExists: companyVerification.exists,
@@ -277,6 +292,7 @@ export class CompanyVerificationService {
         phone: contactInfo.phone,
         email: contactInfo.email,
         website: contactInfo.website || serpResults[0],
+        contactPoints: selectPrimaryContacts(contactPoints),
         verified: confidence >= 60,
         verification: {
           phoneVerified: phoneVerification?.phoneFound || false,
@@ -293,6 +309,23 @@ export class CompanyVerificationService {
     }
   }
 
+  /**
+   * ページ解析結果を連絡先一覧の形式へ
+   */
+  private toContactPoints(info: ContactInfo, sourceUrl: string): ContactPoint[] {
+    const points: ContactPoint[] = [];
+    if (info.phone) {
+      points.push(createContactPoint({ type: 'phone', value: info.phone, phoneType: classifyByNumber(info.phone), sourceUrl, method: 'text-pattern' }));
+    }
+    if (info.email) {
+      points.push(createContactPoint({ type: 'email', value: info.email, sourceUrl, method: 'text-pattern' }));
+    }
+    if (info.website) {
+      points.push(createContactPoint({ type: 'website', value: info.website, sourceUrl, method: 'visit' }));
+    }
+    return points;
+  }
+
   /**
    * Calculate confidence score
    */
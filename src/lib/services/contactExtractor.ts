@@ -0,0 +1,251 @@
+/**
+ * Contact Extractor
+ * HTML内の機械可読な連絡先（tel:/mailto:リンク・JSON-LD・microdata・会社概要の表）をルールベースで抽出する
+ */
+
+export type ContactField = 'companyName' | 'phoneNumber' | 'email' | 'website' | 'address' | 'businessType'
+
+export type ExtractionMethod =
+  | 'json-ld'        // schema.org Organization / LocalBusiness
+  | 'microdata'      // itemprop 属性
+  | 'tel-link'       // <a href="tel:...">
+  | 'mailto-link'    // <a href="mailto:...">
+  | 'profile-table'  // 会社概要の dl/dt/dd・th/td
+  | 'text-pattern'   // 本文の「TEL: ...」等
+  | 'llm'            // Gemini による抽出
+
+export const CONTACT_FIELDS: ContactField[] = ['companyName', 'phoneNumber', 'email', 'website', 'address', 'businessType']
+
+export interface DeterministicContact {
+  fields: Partial<Record<ContactField, string>>
+  methods: Partial<Record<ContactField, ExtractionMethod>>
+}
+
+// schema.org の事業者型（LocalBusiness のサブタイプは名前で判定）
+const ORGANIZATION_TYPES = /Organization|Corporation|Business|Store|Restaurant|Service|Office|Clinic|Dentist|Hospital|Hotel|Agency|Contractor|Dealer/
+
+// 会社概要の表の見出し → フィールド
+const PROFILE_LABELS: Array<[RegExp, ContactField]> = [
+  [/^(商号|会社名|社名|法人名|企業名|名称|事業者名|販売業者|運営会社)$/, 'companyName'],
+  [/^(電話番号|電話|TEL|Tel|代表電話|代表番号|連絡先|お問い合わせ先)$/, 'phoneNumber'],
+  [/^(メールアドレス|メール|E-?mail|e-?mail|Mail)$/i, 'email'],
+  [/^(所在地|住所|本社所在地|本社|本店所在地|所在地・連絡先)$/, 'address'],
+  [/^(事業内容|業種|業務内容|主な事業)$/, 'businessType'],
+  [/^(URL|ホームページ|ウェブサイト|Webサイト|HP)$/i, 'website']
+]
+
+const PHONE_PATTERN = /0\d{1,4}[-‐－−ー\s()（）]{0,2}\d{1,4}[-‐－−ー\s()（）]{0,2}\d{3,4}/
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/
+const TEXT_PHONE_PATTERN = /(?:TEL|Tel|電話番号|電話|代表)\s*[：:．.]?\s*[(（]?(0\d{1,4}[-‐－−ー\s()（）]{0,2}\d{1,4}[-‐－−ー\s()（）]{0,2}\d{3,4})/
+const FAX_LABEL = /FAX|Fax|ファックス|ファクス/
+
+// 連絡先として扱わないメールアドレス
+const IGNORED_EMAIL = /@(example\.(com|jp|co\.jp)|sentry\.io|.*\.(png|jpe?g|gif|svg|webp))$/i
+
+/**
+ * ルールベース抽出（優先度: JSON-LD → microdata → tel/mailtoリンク → 会社概要の表 → 本文パターン）
+ */
+export function extractContactDeterministic(html: string): DeterministicContact {
+  const result: DeterministicContact = { fields: {}, methods: {} }
+  const set = (field: ContactField, value: string | undefined, method: ExtractionMethod) => {
+    const cleaned = value?.replace(/\s+/g, ' ').trim()
+    if (!cleaned || result.fields[field]) return
+    result.fields[field] = cleaned
+    result.methods[field] = method
+  }
+
+  for (const org of findJsonLdOrganizations(html)) {
+    set('companyName', asString(org.name), 'json-ld')
+    set('phoneNumber', normalizePhone(asString(org.telephone)), 'json-ld')
+    set('email', normalizeEmail(asString(org.email)), 'json-ld')
+    set('website', asString(org.url), 'json-ld')
+    set('address', formatPostalAddress(org.address), 'json-ld')
+  }
+
+  // microdata は事業者型の itemscope 以降のみ（商品・パンくず等の itemprop="name" を拾わない）
+  const scopeIndex = html.search(/itemtype=["']https?:\/\/schema\.org\/\w*(Organization|Corporation|Business|Store)["']/i)
+  if (scopeIndex >= 0) {
+    const scope = html.substring(scopeIndex)
+    set('companyName', microdataValue(scope, 'name'), 'microdata')
+    set('phoneNumber', normalizePhone(microdataValue(scope, 'telephone')), 'microdata')
+    set('email', normalizeEmail(microdataValue(scope, 'email')), 'microdata')
+    const microdataAddress = ['postalCode', 'addressRegion', 'addressLocality', 'streetAddress']
+      .map(prop => microdataValue(scope, prop))
+      .filter(Boolean)
+      .join(' ')
+    set('address', microdataAddress || microdataValue(scope, 'address'), 'microdata')
+  }
+
+  set('phoneNumber', normalizePhone(findTelLink(html)), 'tel-link')
+  set('email', normalizeEmail(findMailtoLink(html)), 'mailto-link')
+
+  for (const [label, value] of findProfileRows(html)) {
+    const field = PROFILE_LABELS.find(([pattern]) => pattern.test(label))?.[1]
+    if (!field) continue
+    if (field === 'phoneNumber') {
+      set(field, normalizePhone(value.match(PHONE_PATTERN)?.[0]), 'profile-table')
+    } else if (field === 'email') {
+      set(field, normalizeEmail(value.match(EMAIL_PATTERN)?.[0]), 'profile-table')
+    } else {
+      set(field, value, 'profile-table')
+    }
+  }
+
+  const text = htmlToText(html)
+  set('phoneNumber', normalizePhone(text.match(TEXT_PHONE_PATTERN)?.[1]), 'text-pattern')
+  set('email', normalizeEmail(text.match(EMAIL_PATTERN)?.[0]), 'text-pattern')
+  return result
+}
+
+/**
+ * LLMを呼ばずに採用できるか（連絡手段と所在地がそろっている）
+ */
+export function isContactSufficient(contact: DeterministicContact): boolean {
+  const { phoneNumber, email, address } = contact.fields
+  return Boolean((phoneNumber || email) && address)
+}
+
+/**
+ * 抽出フィールド数に応じた信頼度（表・構造化データ由来のみで算出）
+ */
+export function deterministicConfidence(contact: DeterministicContact): number {
+  const found = (['companyName', 'phoneNumber', 'email', 'address', 'businessType'] as ContactField[])
+    .filter(field => contact.methods[field]).length
+  return Math.min(95, 50 + found * 10)
+}
+
+/**
+ * ページ内のメールアドレスをすべて抽出（mailto:リンク → 本文の順、重複除外）
+ */
+export function extractEmails(html: string): Array<{ email: string, method: ExtractionMethod }> {
+  const emails = new Map<string, ExtractionMethod>()
+  for (const match of html.matchAll(/href=["']mailto:([^"']+)["']/gi)) {
+    const email = normalizeEmail(decodeURIComponent(match[1]))
+    if (email && !emails.has(email.toLowerCase())) emails.set(email.toLowerCase(), 'mailto-link')
+  }
+  for (const match of htmlToText(html).matchAll(new RegExp(EMAIL_PATTERN.source, 'g'))) {
+    const email = normalizeEmail(match[0])
+    if (email && !emails.has(email.toLowerCase())) emails.set(email.toLowerCase(), 'text-pattern')
+  }
+  return [...emails].map(([email, method]) => ({ email, method }))
+}
+
+/**
+ * 電話番号の正規化（全角数字・記号をハイフン区切りへ）
+ */
+export function normalizePhone(value?: string): string | undefined {
+  if (!value) return undefined
+  const halfWidth = value
+    .replace(/[０-９]/g, c => String.fromCharCode(c.charCodeAt(0) - 0xFEE0))
+    .replace(/^\+81[-\s]?/, '0')
+    .replace(/[‐－−ー]/g, '-')
+  const match = halfWidth.match(PHONE_PATTERN)
+  if (!match) return undefined
+  const normalized = match[0].replace(/[\s(（]+/g, '-').replace(/[)）]+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '')
+  const digits = normalized.replace(/\D/g, '')
+  return digits.length >= 10 && digits.length <= 11 ? normalized : undefined
+}
+
+function normalizeEmail(value?: string): string | undefined {
+  const email = value?.trim().replace(/^mailto:/i, '').split('?')[0]
+  if (!email || !EMAIL_PATTERN.test(email) || IGNORED_EMAIL.test(email)) return undefined
+  return email
+}
+
+function findTelLink(html: string): string | undefined {
+  for (const match of html.matchAll(/<a\b[^>]*href=["']tel:([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+    // FAX表記のリンクは電話番号として採用しない
+    if (FAX_LABEL.test(match[2])) continue
+    return decodeURIComponent(match[1])
+  }
+  return undefined
+}
+
+function findMailtoLink(html: string): string | undefined {
+  const match = html.match(/href=["']mailto:([^"']+)["']/i)
+  return match ? decodeURIComponent(match[1]) : undefined
+}
+
+function findJsonLdOrganizations(html: string): Array<Record<string, unknown>> {
+  const organizations: Array<Record<string, unknown>> = []
+  for (const [, json] of html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)) {
+    let data: unknown
+    try {
+      data = JSON.parse(json.trim())
+    } catch {
+      continue
+    }
+    const queue = Array.isArray(data) ? [...data] : [data]
+    while (queue.length > 0) {
+      const node = queue.shift()
+      if (!node || typeof node !== 'object') continue
+      const record = node as Record<string, unknown>
+      if (Array.isArray(record['@graph'])) queue.push(...record['@graph'])
+      // WebPage の publisher・LocalBusiness の parentOrganization 等の入れ子も対象
+      for (const key of ['publisher', 'provider', 'author', 'parentOrganization']) {
+        if (record[key] && typeof record[key] === 'object') queue.push(record[key])
+      }
+      const types = Array.isArray(record['@type']) ? record['@type'] : [record['@type']]
+      if (types.some(type => typeof type === 'string' && ORGANIZATION_TYPES.test(type))) {
+        organizations.push(record)
+      }
+    }
+  }
+  return organizations
+}
+
+function formatPostalAddress(address: unknown): string | undefined {
+  if (typeof address === 'string') return address
+  if (!address || typeof address !== 'object') return undefined
+  const postal = address as Record<string, unknown>
+  const parts = ['postalCode', 'addressRegion', 'addressLocality', 'streetAddress']
+    .map(key => asString(postal[key]))
+    .filter(Boolean)
+  return parts.length > 0 ? parts.join(' ') : undefined
+}
+
+function microdataValue(html: string, prop: string): string | undefined {
+  const pattern = new RegExp(`<(\\w+)\\b[^>]*itemprop=["']${prop}["'][^>]*>`, 'i')
+  const match = html.match(pattern)
+  if (!match) return undefined
+
+  const content = match[0].match(/\bcontent=["']([^"']*)["']/i)?.[1]
+  if (content) return content
+
+  const rest = html.substring(match.index! + match[0].length)
+  const inner = rest.match(new RegExp(`^([\\s\\S]*?)</${match[1]}>`, 'i'))?.[1]
+  return inner ? htmlToText(inner) : undefined
+}
+
+function findProfileRows(html: string): Array<[string, string]> {
+  const rows: Array<[string, string]> = []
+  for (const match of html.matchAll(/<dt\b[^>]*>([\s\S]*?)<\/dt>\s*<dd\b[^>]*>([\s\S]*?)<\/dd>/gi)) {
+    rows.push([cleanLabel(match[1]), htmlToText(match[2])])
+  }
+  for (const match of html.matchAll(/<th\b[^>]*>([\s\S]*?)<\/th>\s*<td\b[^>]*>([\s\S]*?)<\/td>/gi)) {
+    rows.push([cleanLabel(match[1]), htmlToText(match[2])])
+  }
+  return rows
+}
+
+function cleanLabel(html: string): string {
+  return htmlToText(html).replace(/[\s　:：]/g, '')
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<script[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[\s\S]*?<\/style>/gi, '')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value
+  if (Array.isArray(value) && typeof value[0] === 'string') return value[0]
+  return undefined
+}
@@ -0,0 +1,180 @@
+/**
+ * Contact Form Detector
+ * お問い合わせフォームの検出（フォームURL・外部フォームサービス・必須項目・CAPTCHA）
+ */
+
+export type CaptchaType = 'recaptcha' | 'hcaptcha' | 'turnstile' | 'image'
+
+export interface ContactFormField {
+  name: string
+  type: string       // text / email / tel / textarea / select / checkbox 等
+  label?: string
+  required: boolean
+}
+
+export interface ContactForm {
+  url: string              // フォームを表示するページ（外部サービスはそのURL）
+  action?: string          // 送信先
+  method?: string
+  provider?: string        // 外部フォームサービス名（自社フォームは未設定）
+  isThirdParty: boolean
+  fields: ContactFormField[]
+  requiredFields: string[] // 必須項目のラベル（なければ name）
+  captcha?: CaptchaType
+  detectedOn: string       // 検出したページ
+}
+
+// 外部フォームサービス（URLの一部 → サービス名）
+const FORM_SERVICES: Array<[RegExp, string]> = [
+  [/form\.run\//, 'formrun'],
+  [/docs\.google\.com\/forms|forms\.gle\//, 'Googleフォーム'],
+  [/tayori\.com\/form/, 'Tayori'],
+  [/formzu\.net/, 'フォームズ'],
+  [/form-mailer\.jp/, 'フォームメーラー'],
+  [/hsforms\.(com|net)|share\.hsforms\.com/, 'HubSpot'],
+  [/typeform\.com/, 'Typeform'],
+  [/forms\.office\.com|forms\.microsoft\.com/, 'Microsoft Forms'],
+  [/forms\.zohopublic\.(com|jp)|zfrmz\.(com|jp)/, 'Zoho Forms'],
+  [/form\.kintoneapp\.com/, 'kintone フォーム'],
+  [/my\.formcreator\.jp|secure\.shared-form\.jp/, 'フォームクリエイター']
+]
+
+// お問い合わせフォームらしさ（本文入力欄・問い合わせ関連の項目名）
+const INQUIRY_FIELD = /message|inquiry|content|body|comment|toiawase|naiyou|問い?合わせ|内容|ご用件|ご質問|メッセージ/i
+const CONTACT_PAGE = /contact|inquiry|toiawase|otoiawase|form|お問い?合わせ|お問合せ|問い合わせ|資料請求/i
+const SEARCH_FORM = /role=["']search["']|name=["'](q|s|search|keyword|kw)["']|type=["']search["']/i
+
+/**
+ * ページ内のお問い合わせフォームを検出（検索フォーム・ログインフォームは除外）
+ */
+export function detectContactForm(html: string, pageUrl: string, pageTitle: string = ''): ContactForm | null {
+  const captcha = detectCaptcha(html)
+
+  // ページ内のフォーム
+  for (const [formHtml, attributes] of findForms(html)) {
+    if (SEARCH_FORM.test(formHtml) && !/<textarea/i.test(formHtml)) continue
+    if (/type=["']password["']/i.test(formHtml)) continue
+
+    const fields = parseFields(formHtml)
+    const isInquiry = fields.some(field => field.type === 'textarea' || INQUIRY_FIELD.test(`${field.name} ${field.label || ''}`))
+    const hasReplyField = fields.some(field => field.type === 'email' || field.type === 'tel' || /mail|tel|電話|メール/i.test(`${field.name} ${field.label || ''}`))
+    if (!isInquiry || (!hasReplyField && !CONTACT_PAGE.test(`${pageUrl} ${pageTitle}`))) continue
+
+    const action = resolveUrl(attributeValue(attributes, 'action'), pageUrl)
+    const provider = action ? formServiceName(action) : undefined
+    return {
+      url: pageUrl,
+      action,
+      method: attributeValue(attributes, 'method')?.toUpperCase() || 'GET',
+      provider,
+      isThirdParty: Boolean(provider),
+      fields,
+      requiredFields: fields.filter(field => field.required).map(field => field.label || field.name),
+      captcha,
+      detectedOn: pageUrl
+    }
+  }
+
+  // 外部フォームサービスの埋め込み・リンク
+  const embedded = findFormServiceUrl(html)
+  if (embedded) {
+    return {
+      url: embedded.url,
+      provider: embedded.provider,
+      isThirdParty: true,
+      fields: [],
+      requiredFields: [],
+      captcha,
+      detectedOn: pageUrl
+    }
+  }
+  return null
+}
+
+/**
+ * 複数ページの検出結果から採用するフォーム（自社フォーム・項目数の多いものを優先）
+ */
+export function selectContactForm(forms: Array<ContactForm | null>): ContactForm | null {
+  const candidates = forms.filter((form): form is ContactForm => form !== null)
+  candidates.sort((a, b) => Number(a.isThirdParty) - Number(b.isThirdParty) || b.fields.length - a.fields.length)
+  return candidates[0] ?? null
+}
+
+export function formServiceName(url: string): string | undefined {
+  return FORM_SERVICES.find(([pattern]) => pattern.test(url))?.[1]
+}
+
+function detectCaptcha(html: string): CaptchaType | undefined {
+  if (/g-recaptcha|google\.com\/recaptcha|recaptcha\/api\.js|grecaptcha/i.test(html)) return 'recaptcha'
+  if (/h-captcha|hcaptcha\.com/i.test(html)) return 'hcaptcha'
+  if (/cf-turnstile|challenges\.cloudflare\.com\/turnstile/i.test(html)) return 'turnstile'
+  if (/name=["'][^"']*captcha[^"']*["']|src=["'][^"']*captcha[^"']*["']|画像認証|画像の文字/i.test(html)) return 'image'
+  return undefined
+}
+
+function findForms(html: string): Array<[string, string]> {
+  return [...html.matchAll(/<form\b([^>]*)>([\s\S]*?)<\/form>/gi)].map(match => [match[0], match[1]])
+}
+
+function parseFields(formHtml: string): ContactFormField[] {
+  const labels = new Map<string, string>()
+  for (const match of formHtml.matchAll(/<label\b[^>]*for=["']([^"']+)["'][^>]*>([\s\S]*?)<\/label>/gi)) {
+    labels.set(match[1], textOf(match[2]))
+  }
+
+  const fields: ContactFormField[] = []
+  const seen = new Set<string>()
+  for (const match of formHtml.matchAll(/<(input|textarea|select)\b([^>]*)>/gi)) {
+    const tag = match[1].toLowerCase()
+    const attributes = match[2]
+    const type = tag === 'input' ? (attributeValue(attributes, 'type') || 'text').toLowerCase() : tag
+    if (['hidden', 'submit', 'button', 'reset', 'image'].includes(type)) continue
+
+    const name = attributeValue(attributes, 'name') || attributeValue(attributes, 'id') || ''
+    if (!name || seen.has(name)) continue
+    seen.add(name)
+
+    const id = attributeValue(attributes, 'id')
+    const label = (id && labels.get(id)) || nearbyLabel(formHtml, match.index!) || attributeValue(attributes, 'placeholder')
+    const required = /\brequired\b/i.test(attributes) ||
+      /aria-required=["']true["']/i.test(attributes) ||
+      /必須|※/.test(label || '')
+    fields.push({ name, type, label: label?.replace(/\s*(必須|※)\s*/g, '').trim() || undefined, required })
+  }
+  return fields
+}
+
+/**
+ * 入力欄の直前にある見出し（th・dt・label）をラベルとして採用
+ */
+function nearbyLabel(formHtml: string, index: number): string | undefined {
+  const before = formHtml.substring(Math.max(0, index - 400), index)
+  const matches = [...before.matchAll(/<(th|dt|label)\b[^>]*>([\s\S]*?)<\/\1>/gi)]
+  const last = matches[matches.length - 1]
+  return last ? textOf(last[2]) || undefined : undefined
+}
+
+function findFormServiceUrl(html: string): { url: string, provider: string } | null {
+  for (const match of html.matchAll(/<(?:iframe|a|script)\b[^>]*(?:src|href)=["']([^"']+)["']/gi)) {
+    const provider = formServiceName(match[1])
+    if (provider) return { url: match[1], provider }
+  }
+  return null
+}
+
+function attributeValue(attributes: string, name: string): string | undefined {
+  return attributes.match(new RegExp(`\\b${name}=["']([^"']*)["']`, 'i'))?.[1]
+}
+
+function resolveUrl(value: string | undefined, baseUrl: string): string | undefined {
+  if (value === undefined) return undefined
+  try {
+    return new URL(value || baseUrl, baseUrl).toString()
+  } catch {
+    return value
+  }
+}
+
+function textOf(html: string): string {
+  return html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim()
+}
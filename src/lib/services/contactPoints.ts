@@ -0,0 +1,232 @@
+/**
+ * Contact Points
+ * 取得した連絡先（電話・メール・フォーム・URL）をすべて取得元・抽出方法・確認日時付きで保持し、代表の連絡先を選ぶ
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { ExtractionMethod, extractEmails } from './contactExtractor'
+import { ContactForm } from './contactFormDetector'
+import { ClassifiedPhone, PhoneType, extractClassifiedPhones, phoneCallRank } from './phoneClassifier'
+import { TraceStore } from './processingTrace'
+
+export type ContactPointType = 'phone' | 'email' | 'form' | 'website'
+
+export type ContactPointMethod =
+  | ExtractionMethod
+  | 'form-detection' // 問い合わせフォーム検出
+  | 'visit'          // 訪問したページのURL
+
+export interface ContactPoint {
+  type: ContactPointType
+  value: string
+  phoneType?: PhoneType      // 電話の種別（代表・採用・FAX等）
+  label?: string             // ページ上の表記・フォームサービス名
+  sourceUrl: string          // 取得元ページ
+  method: ContactPointMethod
+  confidence: number
+  firstSeenAt: string
+  lastVerifiedAt: string     // 最後にページ上で確認（または電話番号逆引きで一致）した日時
+  phoneVerified?: boolean
+  primary: boolean           // シートに載せる代表の連絡先
+}
+
+export const CONTACT_POINT_TYPES: ContactPointType[] = ['phone', 'email', 'form', 'website']
+
+// 抽出方法ごとの信頼度
+const METHOD_CONFIDENCE: Record<ContactPointMethod, number> = {
+  'json-ld': 90,
+  microdata: 85,
+  'tel-link': 85,
+  'mailto-link': 85,
+  'profile-table': 80,
+  'form-detection': 80,
+  visit: 70,
+  'text-pattern': 60,
+  llm: 50
+}
+
+// メールアドレスの窓口（営業連絡は代表窓口へ、採用窓口は後回し）
+const GENERAL_MAILBOX = /^(info|contact|toiawase|otoiawase|inquiry|office|mail|support|sales|eigyo)[._-]?\w*@/i
+const RECRUITING_MAILBOX = /^(recruit|saiyo|saiyou|jinji|career|job|hr)[._-]?\w*@/i
+
+type NewContactPoint = Omit<ContactPoint, 'confidence' | 'firstSeenAt' | 'lastVerifiedAt' | 'primary'> & { confidence?: number }
+
+/**
+ * 新規の連絡先（確認日時は現在、信頼度は抽出方法から）
+ */
+export function createContactPoint(point: NewContactPoint, now: Date = new Date()): ContactPoint {
+  const seenAt = now.toISOString()
+  return {
+    ...point,
+    confidence: point.confidence ?? METHOD_CONFIDENCE[point.method],
+    firstSeenAt: seenAt,
+    lastVerifiedAt: seenAt,
+    primary: false
+  }
+}
+
+/**
+ * 1ページ分の連絡先（電話・メール・ページURL）
+ */
+export function contactPointsFromPage(html: string, sourceUrl: string, phones?: ClassifiedPhone[], now: Date = new Date()): ContactPoint[] {
+  const points: ContactPoint[] = []
+  for (const phone of phones ?? extractClassifiedPhones(html)) {
+    points.push(createContactPoint({
+      type: 'phone',
+      value: phone.number,
+      phoneType: phone.type,
+      label: phone.label,
+      sourceUrl,
+      method: phone.method ?? 'text-pattern'
+    }, now))
+  }
+  for (const { email, method } of extractEmails(html)) {
+    points.push(createContactPoint({ type: 'email', value: email, sourceUrl, method }, now))
+  }
+  const origin = originOf(sourceUrl)
+  if (origin) {
+    points.push(createContactPoint({ type: 'website', value: origin, sourceUrl, method: 'visit' }, now))
+  }
+  return points
+}
+
+/**
+ * 問い合わせフォームの連絡先
+ */
+export function contactPointFromForm(form: ContactForm, now: Date = new Date()): ContactPoint {
+  return createContactPoint({
+    type: 'form',
+    value: form.url,
+    label: form.provider,
+    sourceUrl: form.detectedOn,
+    method: 'form-detection',
+    // 外部サービス・CAPTCHA付きのフォームは自動送信しにくいため低め
+    confidence: METHOD_CONFIDENCE['form-detection'] - (form.isThirdParty ? 10 : 0) - (form.captcha ? 10 : 0)
+  }, now)
+}
+
+/**
+ * 同じ連絡先を統合（初回確認日時は古い方、最終確認日時と信頼度は新しい・高い方）
+ */
+export function mergeContactPoints(existing: ContactPoint[], incoming: ContactPoint[]): ContactPoint[] {
+  const merged = new Map<string, ContactPoint>()
+  for (const point of [...existing, ...incoming]) {
+    const key = contactPointKey(point)
+    const current = merged.get(key)
+    if (!current) {
+      merged.set(key, { ...point })
+      continue
+    }
+    const preferred = point.confidence > current.confidence ? point : current
+    merged.set(key, {
+      ...preferred,
+      firstSeenAt: current.firstSeenAt < point.firstSeenAt ? current.firstSeenAt : point.firstSeenAt,
+      lastVerifiedAt: current.lastVerifiedAt > point.lastVerifiedAt ? current.lastVerifiedAt : point.lastVerifiedAt,
+      // FAX判定は一度でも付けば維持
+      phoneType: current.phoneType === 'fax' || point.phoneType === 'fax' ? 'fax' : preferred.phoneType,
+      phoneVerified: current.phoneVerified || point.phoneVerified || undefined
+    })
+  }
+  return [...merged.values()]
+}
+
+/**
+ * 種別ごとに代表の連絡先を1件選ぶ（逆引き確認済みを優先、電話はFAX除外・代表番号優先、メールは代表窓口優先、その他は信頼度順）
+ */
+export function selectPrimaryContacts(points: ContactPoint[]): ContactPoint[] {
+  const selected = points.map(point => ({ ...point, primary: false }))
+  for (const type of CONTACT_POINT_TYPES) {
+    const candidates = selected.filter(point => point.type === type && point.phoneType !== 'fax')
+    candidates.sort((a, b) =>
+      Number(Boolean(b.phoneVerified)) - Number(Boolean(a.phoneVerified)) ||
+      (type === 'phone' ? phoneCallRank(a.phoneType ?? 'landline') - phoneCallRank(b.phoneType ?? 'landline') : 0) ||
+      (type === 'email' ? mailboxRank(a.value) - mailboxRank(b.value) : 0) ||
+      b.confidence - a.confidence ||
+      b.lastVerifiedAt.localeCompare(a.lastVerifiedAt)
+    )
+    if (candidates[0]) candidates[0].primary = true
+  }
+  return selected
+}
+
+export function primaryContact(points: ContactPoint[], type: ContactPointType): ContactPoint | undefined {
+  return points.find(point => point.type === type && point.primary)
+}
+
+/**
+ * 同一判定のキー（電話は数字のみ、メールは小文字、URLは末尾スラッシュ除去）
+ */
+export function contactPointKey(point: Pick<ContactPoint, 'type' | 'value'>): string {
+  switch (point.type) {
+    case 'phone':
+      return `phone:${point.value.replace(/\D/g, '')}`
+    case 'email':
+      return `email:${point.value.trim().toLowerCase()}`
+    default:
+      return `${point.type}:${point.value.trim().replace(/\/+$/, '').toLowerCase()}`
+  }
+}
+
+function mailboxRank(email: string): number {
+  if (GENERAL_MAILBOX.test(email)) return 0
+  if (RECRUITING_MAILBOX.test(email)) return 2
+  return 1
+}
+
+function originOf(url: string): string | undefined {
+  try {
+    return new URL(url).origin
+  } catch {
+    return undefined
+  }
+}
+
+const DEFAULT_CONTACT_POINT_DIR = path.join(process.cwd(), 'data', 'contact-points')
+
+export interface StoredContactPoints {
+  key: string
+  corporateNumber?: string
+  companyName: string
+  updatedAt: string
+  points: ContactPoint[]
+}
+
+/**
+ * 企業ごとの連絡先一覧（処理のたびに統合して保存、キーはトレースと同じ）
+ */
+export class ContactPointStore {
+  constructor(private readonly dir: string = DEFAULT_CONTACT_POINT_DIR) {}
+
+  async get(key: string): Promise<StoredContactPoints | null> {
+    const filePath = this.filePath(key)
+    if (!fs.existsSync(filePath)) return null
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+  }
+
+  /**
+   * 今回取得した連絡先を既存の一覧へ統合して保存
+   */
+  async merge(company: { corporateNumber?: string, companyName: string }, points: ContactPoint[]): Promise<StoredContactPoints> {
+    const key = TraceStore.keyFor(company)
+    const existing = await this.get(key)
+    const stored: StoredContactPoints = {
+      key,
+      corporateNumber: company.corporateNumber,
+      companyName: company.companyName,
+      updatedAt: new Date().toISOString(),
+      points: selectPrimaryContacts(mergeContactPoints(existing?.points ?? [], points))
+    }
+
+    await fs.promises.mkdir(this.dir, { recursive: true })
+    await fs.promises.writeFile(this.filePath(key), JSON.stringify(stored, null, 2))
+    return stored
+  }
+
+  private filePath(key: string): string {
+    if (!/^[\w-]+$/.test(key)) {
+      throw new Error(`Invalid contact point key: ${key}`)
+    }
+    return path.join(this.dir, `${key}.json`)
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Corporate CSV Row Index
+ * 行頭バイトオフセットのサイドカーファイルによる法人CSVのランダムアクセス
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import * as iconv from 'iconv-lite'
+import {
+  CorporateRecord,
+  CsvReadOptions,
+  CsvSourceInfo,
+  inspectCorporateCSV,
+  mapRowToRecord,
+  parseCsvLine
+} from './corporateCsvLoader'
+
+const INDEX_VERSION = 2
+const OFFSET_BYTES = 8
+const READ_CHUNK = 1024 * 1024
+
+// サイドカーのメタ情報（CSV本体の変更検知用）
+interface IndexMeta {
+  version: number
+  size: number
+  mtimeMs: number
+  rowCount: number
+  source: CsvSourceInfo
+}
+
+export class CorporateCsvIndex {
+  private constructor(
+    readonly csvPath: string,
+    private readonly indexPath: string,
+    private readonly meta: IndexMeta
+  ) {}
+
+  /**
+   * インデックスを開く（未作成・CSV更新時は再構築）
+   * options指定時は列対応をその指定で読み替える（行オフセットは共用）
+   */
+  static async open(csvPath: string, options?: CsvReadOptions): Promise<CorporateCsvIndex> {
+    if (!fs.existsSync(csvPath)) {
+      throw new Error(`CSV file not found: ${csvPath}`)
+    }
+
+    const stat = await fs.promises.stat(csvPath)
+    const source = options ? await inspectCorporateCSV(csvPath, options) : undefined
+    for (const indexPath of CorporateCsvIndex.candidatePaths(csvPath)) {
+      const meta = await CorporateCsvIndex.readMeta(indexPath)
+      if (meta && meta.version === INDEX_VERSION && meta.size === stat.size && meta.mtimeMs === stat.mtimeMs) {
+        if (!source) {
+          return new CorporateCsvIndex(csvPath, indexPath, meta)
+        }
+        // ヘッダー有無・文字コードが同じならオフセットをそのまま使える
+        if (source.format === meta.source.format && source.encoding === meta.source.encoding && source.hasBOM === meta.source.hasBOM) {
+          return new CorporateCsvIndex(csvPath, indexPath, { ...meta, source })
+        }
+      }
+    }
+
+    return CorporateCsvIndex.build(csvPath, options)
+  }
+
+  /**
+   * CSV全体を1回だけ走査して行頭オフセットを書き出す
+   */
+  static async build(csvPath: string, options?: CsvReadOptions): Promise<CorporateCsvIndex> {
+    const startTime = Date.now()
+    const source = await inspectCorporateCSV(csvPath, options)
+    const stat = await fs.promises.stat(csvPath)
+
+    for (const indexPath of CorporateCsvIndex.candidatePaths(csvPath)) {
+      try {
+        const rowCount = await CorporateCsvIndex.writeOffsets(csvPath, indexPath, source)
+        const meta: IndexMeta = {
+          version: INDEX_VERSION,
+          size: stat.size,
+          mtimeMs: stat.mtimeMs,
+          rowCount,
+          source
+        }
+        await fs.promises.writeFile(`${indexPath}.json`, JSON.stringify(meta, null, 2))
+
+        console.log(`🗂️ CSVインデックス作成完了: ${rowCount}行 (${Date.now() - startTime}ms) → ${indexPath}`)
+        return new CorporateCsvIndex(csvPath, indexPath, meta)
+      } catch (error) {
+        console.warn(`⚠️ インデックス書き込み失敗 [${indexPath}]:`, error instanceof Error ? error.message : error)
+      }
+    }
+
+    throw new Error(`Failed to build CSV index for ${csvPath}`)
+  }
+
+  /**
+   * データ行数（ヘッダー・空行を除く）
+   */
+  get rowCount(): number {
+    return this.meta.rowCount
+  }
+
+  get source(): CsvSourceInfo {
+    return this.meta.source
+  }
+
+  /**
+   * N行目（0始まり）の法人データを取得
+   */
+  async getRecord(rowIndex: number): Promise<CorporateRecord | null> {
+    const [record] = await this.getRange(rowIndex, 1)
+    return record ?? null
+  }
+
+  /**
+   * start行目からcount行分の法人データを取得
+   */
+  async getRange(start: number, count: number): Promise<CorporateRecord[]> {
+    if (start < 0 || count <= 0 || start >= this.meta.rowCount) return []
+
+    const end = Math.min(start + count, this.meta.rowCount)
+    const offsets = await this.readOffsets(start, end)
+    const csvHandle = await fs.promises.open(this.csvPath, 'r')
+
+    try {
+      const records: CorporateRecord[] = []
+      for (let i = 0; i < offsets.length - 1; i++) {
+        const length = offsets[i + 1] - offsets[i]
+        const buffer = Buffer.alloc(length)
+        await csvHandle.read(buffer, 0, length, offsets[i])
+
+        const line = iconv.decode(buffer, this.meta.source.encoding, { stripBOM: false })
+        records.push(mapRowToRecord(parseCsvLine(line), this.meta.source))
+      }
+      return records
+    } finally {
+      await csvHandle.close()
+    }
+  }
+
+  /**
+   * N行目（0始まり）の先頭バイトオフセット（rowCount 指定時はファイル終端）
+   */
+  async offsetOf(rowIndex: number): Promise<number> {
+    if (rowIndex < 0 || rowIndex > this.meta.rowCount) {
+      throw new Error(`Row index out of range: ${rowIndex} (rows: ${this.meta.rowCount})`)
+    }
+    if (rowIndex === this.meta.rowCount) return this.meta.size
+    const [offset] = await this.readOffsets(rowIndex, rowIndex)
+    return offset
+  }
+
+  /**
+   * [start, end] のオフセットを読み込み（最終行の終端はファイルサイズ）
+   */
+  private async readOffsets(start: number, end: number): Promise<number[]> {
+    const handle = await fs.promises.open(this.indexPath, 'r')
+    try {
+      const entries = Math.min(end + 1, this.meta.rowCount) - start
+      const buffer = Buffer.alloc(entries * OFFSET_BYTES)
+      await handle.read(buffer, 0, buffer.length, start * OFFSET_BYTES)
+
+      const offsets: number[] = []
+      for (let i = 0; i < entries; i++) {
+        offsets.push(buffer.readDoubleLE(i * OFFSET_BYTES))
+      }
+      if (end === this.meta.rowCount) offsets.push(this.meta.size)
+      return offsets
+    } finally {
+      await handle.close()
+    }
+  }
+
+  /**
+   * サイドカー候補（CSVと同じディレクトリ → 書き込み不可ならtmp）
+   */
+  private static candidatePaths(csvPath: string): string[] {
+    const absolute = path.resolve(csvPath)
+    const tmpName = `${absolute.replace(/[\\/:]/g, '_')}.idx`
+    return [`${absolute}.idx`, path.join(os.tmpdir(), tmpName)]
+  }
+
+  private static async readMeta(indexPath: string): Promise<IndexMeta | null> {
+    try {
+      if (!fs.existsSync(indexPath) || !fs.existsSync(`${indexPath}.json`)) return null
+      return JSON.parse(await fs.promises.readFile(`${indexPath}.json`, 'utf8'))
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * バイト列を走査して各データ行の先頭オフセットを書き出す
+   * （クォート内の改行は行区切りとみなさない。CP932の2バイト目に " と \n は現れない）
+   * カンマ・空のクォートだけの行は iterateCorporateCSV と同じく空行として数えない（isEmptyRow）
+   */
+  private static async writeOffsets(csvPath: string, indexPath: string, source: CsvSourceInfo): Promise<number> {
+    const unit = source.encoding === 'utf16le' || source.encoding === 'utf16be' ? 2 : 1
+    const bomBytes = !source.hasBOM ? 0 : source.encoding === 'utf8' ? 3 : 2
+    const readCodeUnit = (buf: Buffer, i: number): number => {
+      if (unit === 1) return buf[i]
+      return source.encoding === 'utf16le' ? buf[i] | (buf[i + 1] << 8) : (buf[i] << 8) | buf[i + 1]
+    }
+
+    const output = await fs.promises.open(indexPath, 'w')
+    const pending: Buffer[] = []
+    let rowCount = 0
+    let skipHeader = source.format === 'headed'
+
+    const pushOffset = (offset: number) => {
+      if (skipHeader) {
+        skipHeader = false
+        return
+      }
+      const entry = Buffer.alloc(OFFSET_BYTES)
+      entry.writeDoubleLE(offset)
+      pending.push(entry)
+      rowCount++
+    }
+
+    let position = bomBytes
+    let lineStart = bomBytes
+    let lineHasContent = false
+    let inQuotes = false
+    let afterClosingQuote = false
+    let carry: Buffer = Buffer.alloc(0)
+
+    try {
+      const input = fs.createReadStream(csvPath, { start: bomBytes, highWaterMark: READ_CHUNK })
+      for await (const chunk of input as AsyncIterable<Buffer>) {
+        const buf = carry.length > 0 ? Buffer.concat([carry, chunk]) : chunk
+        const usable = buf.length - (buf.length % unit)
+
+        for (let i = 0; i < usable; i += unit) {
+          const code = readCodeUnit(buf, i)
+          if (code === 0x22) {
+            // クォート内の "" はエスケープされた " （値あり）
+            if (!inQuotes && afterClosingQuote) lineHasContent = true
+            inQuotes = !inQuotes
+            afterClosingQuote = !inQuotes
+            continue
+          }
+          afterClosingQuote = false
+          if (code === 0x0a && !inQuotes) {
+            if (lineHasContent) pushOffset(lineStart)
+            lineStart = position + i + unit
+            lineHasContent = false
+            continue
+          }
+          if (code !== 0x0d && (code !== 0x2c || inQuotes)) lineHasContent = true
+        }
+
+        carry = buf.subarray(usable)
+        position += usable
+
+        if (pending.length > 0) {
+          await output.write(Buffer.concat(pending.splice(0)))
+        }
+      }
+
+      if (lineHasContent) pushOffset(lineStart)
+
+      await output.write(Buffer.concat(pending.splice(0)))
+    } finally {
+      await output.close()
+    }
+
+    return rowCount
+  }
+}
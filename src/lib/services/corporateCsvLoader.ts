@@ -0,0 +1,455 @@
+/**
+ * Corporate CSV Loader
+ * 文字コード・フォーマット自動判定付きの法人CSV読み込み
+ */
+
+import fs from 'fs'
+import csv from 'csv-parser'
+import * as iconv from 'iconv-lite'
+import { CorporateRecordValidator, ValidationSummary, ValidatorOptions } from './corporateRecordValidator'
+import { splitMunicipality } from './addressNormalizer'
+
+// 政府法人番号データの型定義（国税庁 法人番号公表サイト CSVフォーマット）
+export interface CorporateRecord {
+  // 政府法人番号データの標準フィールド
+  sequenceNumber?: string     // 連番
+  corporateNumber?: string    // 法人番号（13桁）
+  processType?: string        // 処理区分
+  correctionType?: string     // 訂正区分
+  updateDate?: string         // 更新年月日
+  changeDate?: string         // 変更年月日
+  corporateName?: string      // 法人名
+  corporateNameImageId?: string // 法人名イメージID
+  kind?: string              // 法人種別
+  prefectureCode?: string    // 都道府県コード
+  prefectureName?: string    // 都道府県名
+  cityCode?: string          // 市区町村コード
+  cityName?: string          // 市区町村名
+  streetNumber?: string      // 丁目番地号
+  addressImageId?: string    // 住所イメージID
+  prefectureCodeAddress?: string
+  cityCodeAddress?: string
+  postalCode?: string        // 郵便番号
+  addressInside?: string     // 国内所在地
+  addressOutside?: string    // 国外所在地
+  addressImageIdInside?: string
+  addressImageIdOutside?: string
+  closeDate?: string         // 登記記録の閉鎖等年月日
+  closeCause?: string        // 登記記録の閉鎖等の事由
+  successorCorporateNumber?: string // 承継先法人番号
+  changeReason?: string      // 変更事由の詳細
+  assignmentDate?: string    // 法人番号指定年月日
+  latest?: string            // 最新履歴
+  corporateNameEn?: string   // 商号又は名称(英語表記)
+  prefectureNameEn?: string  // 国内所在地 都道府県(英語表記)
+  addressInsideEn?: string   // 国内所在地 市区町村丁目番地等(英語表記)
+  addressOutsideEn?: string  // 国外所在地(英語表記)
+  furigana?: string         // フリガナ
+  hihyoji?: string          // 非表示
+
+  // ヘッダー付きCSVの追加企業情報
+  representative?: string   // 代表者
+  establishedDate?: string  // 設立年月日
+  capital?: string          // 資本金
+  employeeCount?: string    // 従業員数
+
+  // リード一覧（インポートプロファイル）の既知の連絡先
+  phoneNumber?: string      // 電話番号
+  website?: string          // URL
+  email?: string            // メールアドレス
+
+  // 互換性のためのエイリアス
+  法人番号?: string
+  法人名?: string
+  住所?: string
+}
+
+export type CsvEncoding = 'utf8' | 'cp932' | 'utf16le' | 'utf16be'
+
+// nta: 国税庁のヘッダーなし30列フォーマット / headed: ヘッダー行付きCSV
+export type CsvFormat = 'nta' | 'headed'
+
+export type CorporateField = Exclude<keyof CorporateRecord, '法人番号' | '法人名' | '住所'> | 'address'
+
+// インポートプロファイル等による読み込み指定（未指定項目は自動判定）
+export interface CsvReadOptions {
+  encoding?: CsvEncoding
+  // フィールド → ヘッダー名（既定の表記ゆれ対応表より優先）
+  columnAliases?: Partial<Record<CorporateField, string[]>>
+}
+
+export interface CsvSourceInfo {
+  encoding: CsvEncoding
+  hasBOM: boolean
+  format: CsvFormat
+  header?: string[]
+  // 列インデックス → CorporateRecordフィールド
+  columnMap: Partial<Record<CorporateField, number>>
+}
+
+// 国税庁CSVの列順（0始まり）
+const NTA_COLUMNS: CorporateField[] = [
+  'sequenceNumber',           // 一連番号
+  'corporateNumber',          // 法人番号
+  'processType',              // 処理区分
+  'correctionType',           // 訂正区分
+  'updateDate',               // 更新年月日
+  'changeDate',               // 変更年月日
+  'corporateName',            // 商号又は名称
+  'corporateNameImageId',     // 商号又は名称イメージID
+  'kind',                     // 法人種別
+  'prefectureName',           // 国内所在地（都道府県）
+  'cityName',                 // 国内所在地（市区町村）
+  'streetNumber',             // 国内所在地（丁目番地等）
+  'addressImageId',           // 国内所在地イメージID
+  'prefectureCode',           // 都道府県コード
+  'cityCode',                 // 市区町村コード
+  'postalCode',               // 郵便番号
+  'addressOutside',           // 国外所在地
+  'addressImageIdOutside',    // 国外所在地イメージID
+  'closeDate',                // 登記記録の閉鎖等年月日
+  'closeCause',               // 登記記録の閉鎖等の事由
+  'successorCorporateNumber', // 承継先法人番号
+  'changeReason',             // 変更事由の詳細
+  'assignmentDate',           // 法人番号指定年月日
+  'latest',                   // 最新履歴
+  'corporateNameEn',          // 商号又は名称（英語表記）
+  'prefectureNameEn',         // 国内所在地（都道府県）（英語表記）
+  'addressInsideEn',          // 国内所在地（市区町村丁目番地等）（英語表記）
+  'addressOutsideEn',         // 国外所在地（英語表記）
+  'furigana',                 // フリガナ
+  'hihyoji'                   // 検索対象除外
+]
+
+// ヘッダー名 → フィールドの対応表（表記ゆれ吸収）
+const HEADER_ALIASES: Partial<Record<CorporateField, string[]>> = {
+  corporateNumber: ['法人番号', 'corporatenumber', 'corporate_number'],
+  corporateName: ['法人名', '商号又は名称', '商号', '会社名', '企業名', 'corporatename', 'name'],
+  address: ['住所', '所在地', '本店所在地', '国内所在地', 'address'],
+  prefectureName: ['都道府県', '都道府県名'],
+  prefectureCode: ['都道府県コード'],
+  cityName: ['市区町村', '市区町村名'],
+  cityCode: ['市区町村コード'],
+  streetNumber: ['丁目番地', '丁目番地等', '番地'],
+  postalCode: ['郵便番号', '〒'],
+  kind: ['法人種別'],
+  assignmentDate: ['法人番号指定年月日'],
+  closeDate: ['閉鎖年月日', '登記記録の閉鎖等年月日'],
+  furigana: ['フリガナ', 'ふりがな'],
+  corporateNameEn: ['英語表記', '商号又は名称(英語表記)', 'englishname'],
+  representative: ['代表者', '代表者名'],
+  establishedDate: ['設立年月日', '設立日', '設立'],
+  capital: ['資本金'],
+  employeeCount: ['従業員数', '社員数'],
+  phoneNumber: ['電話番号', '電話', 'tel', 'phone'],
+  website: ['url', 'ホームページ', 'website', 'webサイト'],
+  email: ['メールアドレス', 'メール', 'email', 'e-mail']
+}
+
+const SAMPLE_BYTES = 64 * 1024
+
+/**
+ * 文字コード判定（BOM → UTF-16パターン → UTF-8妥当性 → CP932）
+ */
+export function detectEncoding(sample: Buffer): { encoding: CsvEncoding, hasBOM: boolean } {
+  if (sample[0] === 0xef && sample[1] === 0xbb && sample[2] === 0xbf) {
+    return { encoding: 'utf8', hasBOM: true }
+  }
+  if (sample[0] === 0xff && sample[1] === 0xfe) {
+    return { encoding: 'utf16le', hasBOM: true }
+  }
+  if (sample[0] === 0xfe && sample[1] === 0xff) {
+    return { encoding: 'utf16be', hasBOM: true }
+  }
+
+  // BOMなしUTF-16: ASCII部分の上位バイトが0x00になる
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++
+      else oddZeros++
+    }
+  }
+  const half = sample.length / 2
+  if (half > 0 && oddZeros / half > 0.3) return { encoding: 'utf16le', hasBOM: false }
+  if (half > 0 && evenZeros / half > 0.3) return { encoding: 'utf16be', hasBOM: false }
+
+  // UTF-8として厳密にデコードできればUTF-8（末尾の途切れた文字は許容）
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true })
+    return { encoding: 'utf8', hasBOM: false }
+  } catch {
+    return { encoding: 'cp932', hasBOM: false }
+  }
+}
+
+/**
+ * CSV1行をフィールド配列に分解（ダブルクォート対応）
+ */
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (inQuotes) {
+      if (char === '"') {
+        if (line[i + 1] === '"') {
+          current += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      fields.push(current)
+      current = ''
+    } else if (char !== '\r' && char !== '\n') {
+      current += char
+    }
+  }
+  fields.push(current)
+  return fields
+}
+
+const normalizeHeader = (value: string): string =>
+  value.replace(/^﻿/, '').normalize('NFKC').replace(/\s+/g, '').toLowerCase()
+
+/**
+ * ヘッダー行からフィールド対応表を作成（該当なしの場合はnull）
+ */
+export function buildHeaderColumnMap(
+  header: string[],
+  aliases: Partial<Record<CorporateField, string[]>> = HEADER_ALIASES
+): Partial<Record<CorporateField, number>> | null {
+  const columnMap: Partial<Record<CorporateField, number>> = {}
+  const normalized = header.map(normalizeHeader)
+
+  for (const [field, names] of Object.entries(aliases) as Array<[CorporateField, string[]]>) {
+    const index = normalized.findIndex(h => names.some(name => normalizeHeader(name) === h))
+    if (index >= 0) columnMap[field] = index
+  }
+
+  return columnMap.corporateName !== undefined || columnMap.corporateNumber !== undefined
+    ? columnMap
+    : null
+}
+
+/**
+ * フォーマット判定（国税庁30列 or ヘッダー付き）
+ */
+export function detectFormat(firstRow: string[]): Pick<CsvSourceInfo, 'format' | 'header' | 'columnMap'> {
+  const looksLikeNTA = firstRow.length >= 30 && /^\d+$/.test(firstRow[0]) && /^\d{13}$/.test(firstRow[1])
+  if (looksLikeNTA) {
+    return { format: 'nta', columnMap: ntaColumnMap() }
+  }
+
+  const headerMap = buildHeaderColumnMap(firstRow)
+  if (headerMap) {
+    return { format: 'headed', header: firstRow, columnMap: headerMap }
+  }
+
+  if (firstRow.length >= 30) {
+    return { format: 'nta', columnMap: ntaColumnMap() }
+  }
+
+  throw new Error(`Unrecognized corporate CSV format (${firstRow.length} columns)`)
+}
+
+function ntaColumnMap(): Partial<Record<CorporateField, number>> {
+  const columnMap: Partial<Record<CorporateField, number>> = {}
+  NTA_COLUMNS.forEach((field, index) => {
+    columnMap[field] = index
+  })
+  return columnMap
+}
+
+/**
+ * 先頭部分を読み込んで文字コード・フォーマットを判定
+ */
+export async function inspectCorporateCSV(csvPath: string, options: CsvReadOptions = {}): Promise<CsvSourceInfo> {
+  if (!fs.existsSync(csvPath)) {
+    throw new Error(`CSV file not found: ${csvPath}`)
+  }
+
+  const handle = await fs.promises.open(csvPath, 'r')
+  let sample: Buffer
+  try {
+    const buffer = Buffer.alloc(SAMPLE_BYTES)
+    const { bytesRead } = await handle.read(buffer, 0, SAMPLE_BYTES, 0)
+    sample = buffer.subarray(0, bytesRead)
+  } finally {
+    await handle.close()
+  }
+
+  const detected = detectEncoding(sample)
+  const encoding = options.encoding ?? detected.encoding
+  const hasBOM = detected.hasBOM && detected.encoding === encoding
+  const text = iconv.decode(sample, encoding)
+  const firstRow = parseCsvLine((text.split('\n')[0] || '').replace(/\r$/, ''))
+
+  if (options.columnAliases) {
+    // プロファイル指定時はヘッダー付きとして列名で対応付け
+    const columnMap = buildHeaderColumnMap(firstRow, { ...HEADER_ALIASES, ...options.columnAliases })
+    if (!columnMap) {
+      throw new Error(`Mapped columns not found in CSV header: ${firstRow.join(', ')}`)
+    }
+    return { encoding, hasBOM, format: 'headed', header: firstRow, columnMap }
+  }
+
+  return {
+    encoding,
+    hasBOM,
+    ...detectFormat(firstRow)
+  }
+}
+
+/**
+ * 1行分のフィールド配列をCorporateRecordに変換
+ */
+export function mapRowToRecord(row: string[], info: Pick<CsvSourceInfo, 'format' | 'columnMap'>): CorporateRecord {
+  const record: CorporateRecord = {}
+  const values = record as Record<string, string | undefined>
+
+  for (const [field, index] of Object.entries(info.columnMap) as Array<[CorporateField, number]>) {
+    const value = row[index]?.trim()
+    if (value && field !== 'address') values[field] = value
+  }
+
+  let address = ''
+  if (info.format === 'headed' && info.columnMap.address !== undefined) {
+    address = row[info.columnMap.address]?.trim() || ''
+    const parts = splitMunicipality(address)
+    record.prefectureName ??= parts.prefecture
+    record.cityName ??= parts.municipality
+    record.streetNumber ??= parts.rest || undefined
+  }
+
+  // 互換性エイリアス
+  record.法人番号 = record.corporateNumber
+  record.法人名 = record.corporateName
+  record.住所 = address || `${record.prefectureName || ''}${record.cityName || ''}${record.streetNumber || ''}`.trim()
+
+  return record
+}
+
+/**
+ * 空行判定（全項目が空。区切りのカンマ・空のクォートだけの行も含む）
+ * 行インデックスも同じ規則で行を数える
+ */
+export function isEmptyRow(values: string[]): boolean {
+  return values.every(value => !value)
+}
+
+/**
+ * 法人CSVを1行ずつ読み込む非同期イテレーター（全件をメモリに載せない）
+ * start はデータ行の先頭バイトオフセット（インデックスの行オフセット、指定時はヘッダーを読まない）
+ */
+export async function* iterateCorporateCSV(
+  csvPath: string,
+  info?: CsvSourceInfo,
+  start: number = 0
+): AsyncGenerator<CorporateRecord> {
+  const source = info ?? await inspectCorporateCSV(csvPath)
+
+  const rows = fs.createReadStream(csvPath, { start })
+    .pipe(iconv.decodeStream(source.encoding))
+    .pipe(csv({
+      headers: false,
+      skipLines: source.format === 'headed' && start === 0 ? 1 : 0
+    }))
+
+  for await (const row of rows as AsyncIterable<Record<string, string>>) {
+    const values = Object.values(row)
+    // 空行はスキップ（インデックスの行番号と揃える）
+    if (isEmptyRow(values)) continue
+    yield mapRowToRecord(values, source)
+  }
+}
+
+export interface LoadResult {
+  records: CorporateRecord[]
+  source: CsvSourceInfo
+  validation: ValidationSummary
+}
+
+/**
+ * 法人CSV読み込み（文字コード・フォーマット自動判定、不正行は隔離）
+ */
+export async function loadCorporateRecords(
+  csvPath: string,
+  options: ValidatorOptions & CsvReadOptions = {}
+): Promise<LoadResult> {
+  const source = await inspectCorporateCSV(csvPath, options)
+  console.log(`🔎 CSV判定: encoding=${source.encoding}${source.hasBOM ? ' (BOM)' : ''}, format=${source.format}`)
+
+  const validator = new CorporateRecordValidator(options)
+  const records: CorporateRecord[] = []
+  let rowNumber = 0
+
+  for await (const record of iterateCorporateCSV(csvPath, source)) {
+    rowNumber++
+    if (!validator.check(record, rowNumber)) {
+      records.push(record)
+    }
+  }
+
+  await validator.flush()
+  return { records, source, validation: validator.getSummary() }
+}
+
+export interface CsvValidationReport {
+  source: Omit<CsvSourceInfo, 'columnMap'>
+  rowCount: number
+  validation: ValidationSummary
+  closedCount: number
+  prefectures: Record<string, number>
+  samples: CorporateRecord[]
+  invalidSamples: { rowNumber: number, errors: string[], record: CorporateRecord }[]
+}
+
+/**
+ * 検証モード（レコードを保持せず、件数・都道府県内訳・サンプルのみ集計）
+ */
+export async function validateCorporateCSV(
+  csvPath: string,
+  options: ValidatorOptions & CsvReadOptions & { sampleSize?: number } = {}
+): Promise<CsvValidationReport> {
+  const info = await inspectCorporateCSV(csvPath, options)
+  const sampleSize = options.sampleSize ?? 5
+
+  const validator = new CorporateRecordValidator(options)
+  const report: Omit<CsvValidationReport, 'validation'> = {
+    source: { encoding: info.encoding, hasBOM: info.hasBOM, format: info.format, header: info.header },
+    rowCount: 0,
+    closedCount: 0,
+    prefectures: {},
+    samples: [],
+    invalidSamples: []
+  }
+
+  for await (const record of iterateCorporateCSV(csvPath, info)) {
+    report.rowCount++
+    const errors = validator.check(record, report.rowCount)
+    if (errors) {
+      if (report.invalidSamples.length < sampleSize * 2) {
+        report.invalidSamples.push({ rowNumber: report.rowCount, errors, record })
+      }
+      continue
+    }
+
+    const prefecture = record.prefectureName || '不明'
+    report.prefectures[prefecture] = (report.prefectures[prefecture] || 0) + 1
+    if (record.closeDate) report.closedCount++
+    if (report.samples.length < sampleSize) report.samples.push(record)
+  }
+
+  await validator.flush()
+  return { ...report, validation: validator.getSummary() }
+}
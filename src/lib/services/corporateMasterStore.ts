@@ -0,0 +1,490 @@
+/**
+ * Corporate Master Store
+ * 法人番号をキーにしたローカル法人マスタと国税庁差分ファイルの適用
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { writeFileAtomic } from './atomicFile'
+import { CorporateRecord, iterateCorporateCSV } from './corporateCsvLoader'
+
+// 国税庁 処理区分コード
+export const PROCESS_TYPES: Record<string, string> = {
+  '01': '新規',
+  '11': '商号又は名称の変更',
+  '12': '国内所在地の変更',
+  '13': '国外所在地の変更',
+  '21': '登記記録の閉鎖等',
+  '22': '登記記録の閉鎖等の取消し',
+  '71': '吸収合併',
+  '72': '吸収合併無効',
+  '81': '商号の登記の抹消',
+  '99': '削除'
+}
+
+export type MasterChangeType =
+  | 'new'        // 新規登録
+  | 'renamed'    // 商号変更
+  | 'relocated'  // 所在地変更
+  | 'closed'     // 閉鎖・合併消滅
+  | 'reopened'   // 閉鎖の取消し
+  | 'deleted'    // 削除
+  | 'updated'    // その他の更新・訂正
+
+export interface MasterChange {
+  corporateNumber: string
+  type: MasterChangeType
+  corporateName?: string
+  previousName?: string
+  processType?: string
+  correction: boolean
+  changeDate?: string
+  sourceFile: string
+  appliedAt: string
+}
+
+interface MasterEntry {
+  current: CorporateRecord | null
+  history: CorporateRecord[]
+}
+
+// シャードファイルの1行（読み込み時に先頭から順に適用して最新状態を復元する）
+type MasterOp =
+  | { op: 'current', corporateNumber: string, record: CorporateRecord }
+  | { op: 'history', corporateNumber: string, record: CorporateRecord }
+  | { op: 'delete', corporateNumber: string }
+
+type MasterShard = Map<string, MasterEntry>
+
+interface MasterMeta {
+  updatedAt?: string
+  appliedFiles: string[]
+  shardSizes: Record<string, number>
+}
+
+export interface DiffApplyResult {
+  sourceFile: string
+  skipped: boolean
+  rowsRead: number
+  historyRows: number
+  changes: Record<MasterChangeType, number>
+}
+
+const DEFAULT_MASTER_DIR = path.join(process.cwd(), 'data', 'corporate-master')
+// 旧形式（マスタ全体を1つのJSONに保存）。初回読み込み時に移行する
+const LEGACY_MASTER_FILE = path.join(process.cwd(), 'data', 'corporate_master.json')
+
+const META_FILE = 'meta.json'
+const CHANGES_FILE = 'changes.jsonl'
+const CURSOR_FILE = 'consumers.json'
+const SHARD_DIR = 'shards'
+const MAX_CACHED_SHARDS = 64
+const MAX_BUFFERED_LINES = 20000
+
+// 変更の取り出し側ごとの読み取り位置（changes.jsonl のバイトオフセット、種別ごと）
+export const DEFAULT_CHANGE_CONSUMER = 'default'
+type ChangeCursors = Record<string, Partial<Record<MasterChangeType, number>>>
+const CHANGE_TYPES: MasterChangeType[] = ['new', 'renamed', 'relocated', 'closed', 'reopened', 'deleted', 'updated']
+
+// 読み取り位置の更新を直列化（同じディレクトリのストアはプロセス内で共有）
+const cursorWrites = new Map<string, Promise<unknown>>()
+
+/**
+ * 法人番号の末尾3桁ごとのシャード（追記のみのJSONL）に保存する
+ * 全国分でも1ファイルが大きくならず、参照時は該当シャードだけを読み込む
+ */
+export class CorporateMasterStore {
+  private meta: MasterMeta | null = null
+  private readonly shards = new Map<string, MasterShard>()
+  private readonly buffered = new Map<string, string[]>()
+  private bufferedLines = 0
+  private readonly touched = new Set<string>()
+
+  constructor(
+    private readonly dir: string = DEFAULT_MASTER_DIR,
+    private readonly legacyFile: string = LEGACY_MASTER_FILE
+  ) {}
+
+  /**
+   * 法人番号で最新レコードを取得
+   */
+  async get(corporateNumber: string): Promise<CorporateRecord | null> {
+    const shard = await this.shard(shardKey(corporateNumber))
+    return shard.get(corporateNumber)?.current ?? null
+  }
+
+  /**
+   * 法人番号の履歴（古い順）を取得
+   */
+  async getHistory(corporateNumber: string): Promise<CorporateRecord[]> {
+    const shard = await this.shard(shardKey(corporateNumber))
+    return shard.get(corporateNumber)?.history ?? []
+  }
+
+  async size(): Promise<number> {
+    const meta = await this.loadMeta()
+    return Object.values(meta.shardSizes).reduce((sum, count) => sum + count, 0)
+  }
+
+  /**
+   * 全件データからマスタを初期構築（変更通知は発生させない）
+   */
+  async importFull(csvPath: string): Promise<number> {
+    const meta = await this.loadMeta()
+    let imported = 0
+
+    for await (const record of iterateCorporateCSV(csvPath)) {
+      if (!record.corporateNumber || record.latest === '0') continue
+      await this.append({ op: 'current', corporateNumber: record.corporateNumber, record: { ...record, latest: '1' } })
+      imported++
+    }
+
+    meta.appliedFiles.push(this.fileKey(csvPath))
+    await this.commit()
+    console.log(`🗃️ 法人マスタ初期構築: ${imported}件 (${path.basename(csvPath)})`)
+    return imported
+  }
+
+  /**
+   * 差分ファイルを適用
+   */
+  async applyDiffFile(csvPath: string, options: { force?: boolean } = {}): Promise<DiffApplyResult> {
+    const meta = await this.loadMeta()
+    const sourceFile = path.basename(csvPath)
+    const result: DiffApplyResult = {
+      sourceFile,
+      skipped: false,
+      rowsRead: 0,
+      historyRows: 0,
+      changes: { new: 0, renamed: 0, relocated: 0, closed: 0, reopened: 0, deleted: 0, updated: 0 }
+    }
+
+    const key = this.fileKey(csvPath)
+    if (meta.appliedFiles.includes(key) && !options.force) {
+      console.log(`⏭️ 差分ファイル適用済み: ${sourceFile}`)
+      return { ...result, skipped: true }
+    }
+
+    const appliedAt = new Date().toISOString()
+    const changes: MasterChange[] = []
+    for await (const record of iterateCorporateCSV(csvPath)) {
+      if (!record.corporateNumber) continue
+      result.rowsRead++
+
+      const change = await this.applyRecord(record, sourceFile, appliedAt)
+      if (change) {
+        changes.push(change)
+        result.changes[change.type]++
+      } else {
+        result.historyRows++
+      }
+    }
+
+    meta.appliedFiles.push(key)
+    await this.commit(changes)
+
+    console.log(`🗃️ 差分適用完了: ${sourceFile} (${result.rowsRead}行)`, result.changes)
+    return result
+  }
+
+  /**
+   * 前回取得以降の変更を確認（消費しない）
+   */
+  async peekChanges(types?: MasterChangeType[], consumer: string = DEFAULT_CHANGE_CONSUMER): Promise<MasterChange[]> {
+    const cursors = await this.readCursors()
+    const { changes } = await this.readChanges(cursors[consumer] ?? {})
+    return types ? changes.filter(c => types.includes(c.type)) : changes
+  }
+
+  /**
+   * 前回取得以降の変更を取り出す（取り出し側ごとの読み取り位置を進める）
+   * 種別指定時はその種別のみ取り出し、他の種別は残す
+   * 変更ログは追記のみで書き換えないため、取り出し中に適用された差分の変更も失わない
+   */
+  async consumeChanges(types?: MasterChangeType[], consumer: string = DEFAULT_CHANGE_CONSUMER): Promise<MasterChange[]> {
+    const run = async () => {
+      const cursors = await this.readCursors()
+      const cursor = cursors[consumer] ?? {}
+      const { changes, end } = await this.readChanges(cursor)
+      const consumed = types ?? CHANGE_TYPES
+      // 新しい変更がなければ書き込まない（エンリッチ処理の実行ごとに呼ばれる）
+      if (consumed.some(type => (cursor[type] ?? 0) !== end)) {
+        for (const type of consumed) cursor[type] = end
+        cursors[consumer] = cursor
+        await writeFileAtomic(path.join(this.dir, CURSOR_FILE), JSON.stringify(cursors))
+      }
+      return types ? changes.filter(c => types.includes(c.type)) : changes
+    }
+    const previous = cursorWrites.get(this.dir) ?? Promise.resolve()
+    const next = previous.catch(() => undefined).then(run)
+    cursorWrites.set(this.dir, next)
+    return next
+  }
+
+  /**
+   * 1行分の差分を適用し、最新履歴フラグを付け替える
+   */
+  private async applyRecord(
+    record: CorporateRecord,
+    sourceFile: string,
+    appliedAt: string
+  ): Promise<MasterChange | null> {
+    const corporateNumber = record.corporateNumber!
+
+    // 過去履歴の行（latest=0）は履歴にのみ追加
+    if (record.latest === '0') {
+      await this.append({ op: 'history', corporateNumber, record: { ...record, latest: '0' } })
+      return null
+    }
+
+    const previous = (await this.get(corporateNumber)) ?? undefined
+    const change: MasterChange = {
+      corporateNumber,
+      type: this.classifyChange(record, previous),
+      corporateName: record.corporateName,
+      previousName: previous && previous.corporateName !== record.corporateName ? previous.corporateName : undefined,
+      processType: record.processType,
+      correction: record.correctionType === '1',
+      changeDate: record.changeDate,
+      sourceFile,
+      appliedAt
+    }
+
+    if (change.type === 'deleted') {
+      await this.append({ op: 'delete', corporateNumber })
+      return change
+    }
+
+    if (previous) {
+      await this.append({ op: 'history', corporateNumber, record: { ...previous, latest: '0' } })
+    }
+    await this.append({ op: 'current', corporateNumber, record: { ...record, latest: '1' } })
+
+    return change
+  }
+
+  /**
+   * 処理区分と前回値との比較から変更種別を判定
+   */
+  private classifyChange(record: CorporateRecord, previous?: CorporateRecord): MasterChangeType {
+    if (record.processType === '99') return 'deleted'
+
+    // 閉鎖・合併は初めて見る法人でも新規ではなく閉鎖として通知する
+    switch (record.processType) {
+      case '21':
+      case '71':
+      case '81':
+        return 'closed'
+      case '22':
+      case '72':
+        return 'reopened'
+    }
+    if (!previous) return record.closeDate ? 'closed' : 'new'
+
+    switch (record.processType) {
+      case '11':
+        return 'renamed'
+      case '12':
+      case '13':
+        return 'relocated'
+    }
+
+    if (record.closeDate && !previous.closeDate) return 'closed'
+    if (!record.closeDate && previous.closeDate) return 'reopened'
+    if (record.corporateName !== previous.corporateName) return 'renamed'
+    if (record.住所 !== previous.住所) return 'relocated'
+    return 'updated'
+  }
+
+  private fileKey(csvPath: string): string {
+    const stat = fs.statSync(csvPath)
+    return `${path.basename(csvPath)}:${stat.size}`
+  }
+
+  private async loadMeta(): Promise<MasterMeta> {
+    if (this.meta) return this.meta
+
+    const metaPath = path.join(this.dir, META_FILE)
+    if (fs.existsSync(metaPath)) {
+      this.meta = JSON.parse(await fs.promises.readFile(metaPath, 'utf8'))
+      return this.meta!
+    }
+
+    this.meta = { appliedFiles: [], shardSizes: {} }
+    if (fs.existsSync(this.legacyFile)) await this.migrateLegacy()
+    return this.meta
+  }
+
+  /**
+   * 旧形式（1つのJSON）からシャード形式へ移行し、旧ファイルは .migrated として残す
+   */
+  private async migrateLegacy(): Promise<void> {
+    const legacy: {
+      appliedFiles?: string[]
+      entries?: Record<string, MasterEntry>
+      pendingChanges?: MasterChange[]
+    } = JSON.parse(await fs.promises.readFile(this.legacyFile, 'utf8'))
+
+    for (const [corporateNumber, entry] of Object.entries(legacy.entries ?? {})) {
+      for (const record of entry.history) await this.append({ op: 'history', corporateNumber, record })
+      if (entry.current) await this.append({ op: 'current', corporateNumber, record: entry.current })
+    }
+    this.meta!.appliedFiles = legacy.appliedFiles ?? []
+    await this.commit(legacy.pendingChanges ?? [])
+    await fs.promises.rename(this.legacyFile, `${this.legacyFile}.migrated`)
+    console.log(`🗃️ 法人マスタを新形式へ移行: ${await this.size()}件`)
+  }
+
+  /**
+   * 変更を追記（読み込み済みのシャードにも反映）
+   */
+  private async append(op: MasterOp): Promise<void> {
+    const key = shardKey(op.corporateNumber)
+    const shard = this.shards.get(key)
+    if (shard) applyOp(shard, op)
+
+    const lines = this.buffered.get(key) ?? []
+    lines.push(JSON.stringify(op))
+    this.buffered.set(key, lines)
+    this.touched.add(key)
+    if (++this.bufferedLines >= MAX_BUFFERED_LINES) await this.flush()
+  }
+
+  private async flush(key?: string): Promise<void> {
+    const keys = key ? [key] : [...this.buffered.keys()]
+    if (keys.length === 0) return
+    await fs.promises.mkdir(path.join(this.dir, SHARD_DIR), { recursive: true })
+    for (const k of keys) {
+      const lines = this.buffered.get(k)
+      if (!lines) continue
+      await fs.promises.appendFile(this.shardPath(k), lines.join('\n') + '\n')
+      this.bufferedLines -= lines.length
+      this.buffered.delete(k)
+    }
+  }
+
+  /**
+   * 追記の確定（変更のあったシャードを圧縮して置き換え、件数とメタ情報を保存）
+   */
+  private async commit(changes: MasterChange[] = []): Promise<void> {
+    const meta = await this.loadMeta()
+    await this.flush()
+
+    for (const key of this.touched) {
+      this.shards.delete(key)
+      const shard = await this.readShard(key)
+      const lines: string[] = []
+      for (const [corporateNumber, entry] of shard) {
+        for (const record of entry.history) lines.push(JSON.stringify({ op: 'history', corporateNumber, record }))
+        if (entry.current) lines.push(JSON.stringify({ op: 'current', corporateNumber, record: entry.current }))
+      }
+      await writeFileAtomic(this.shardPath(key), lines.map(line => line + '\n').join(''))
+      meta.shardSizes[key] = shard.size
+    }
+    this.touched.clear()
+
+    if (changes.length > 0) {
+      await fs.promises.appendFile(path.join(this.dir, CHANGES_FILE), changes.map(c => JSON.stringify(c) + '\n').join(''))
+    }
+    meta.updatedAt = new Date().toISOString()
+    await writeFileAtomic(path.join(this.dir, META_FILE), JSON.stringify(meta))
+  }
+
+  private async shard(key: string): Promise<MasterShard> {
+    const cached = this.shards.get(key)
+    if (cached) {
+      // 最近使ったシャードを後ろへ（古いものから破棄）
+      this.shards.delete(key)
+      this.shards.set(key, cached)
+      return cached
+    }
+
+    await this.loadMeta()
+    // 破棄したシャードの未書き出しの変更を反映してから読む
+    await this.flush(key)
+    const shard = await this.readShard(key)
+    this.shards.set(key, shard)
+    if (this.shards.size > MAX_CACHED_SHARDS) {
+      this.shards.delete(this.shards.keys().next().value!)
+    }
+    return shard
+  }
+
+  private async readShard(key: string): Promise<MasterShard> {
+    const shard: MasterShard = new Map()
+    const shardPath = this.shardPath(key)
+    if (!fs.existsSync(shardPath)) return shard
+
+    for (const line of (await fs.promises.readFile(shardPath, 'utf8')).split('\n')) {
+      if (!line) continue
+      try {
+        applyOp(shard, JSON.parse(line))
+      } catch {
+        // 追記途中で停止した末尾の行は無視
+      }
+    }
+    return shard
+  }
+
+  /**
+   * 種別ごとの読み取り位置より後の変更と、読み終えた位置（改行まで書かれた行の終端）
+   */
+  private async readChanges(cursor: Partial<Record<MasterChangeType, number>>): Promise<{ changes: MasterChange[], end: number }> {
+    await this.loadMeta()
+    const changesPath = path.join(this.dir, CHANGES_FILE)
+    const start = Math.min(...CHANGE_TYPES.map(type => cursor[type] ?? 0))
+    if (!fs.existsSync(changesPath)) return { changes: [], end: start }
+
+    const handle = await fs.promises.open(changesPath, 'r')
+    let buffer: Buffer
+    try {
+      const { size } = await handle.stat()
+      buffer = Buffer.alloc(Math.max(0, size - start))
+      await handle.read(buffer, 0, buffer.length, start)
+    } finally {
+      await handle.close()
+    }
+
+    const changes: MasterChange[] = []
+    let lineStart = 0
+    for (let newline = buffer.indexOf(0x0a); newline >= 0; newline = buffer.indexOf(0x0a, lineStart)) {
+      const offset = start + lineStart
+      const line = buffer.subarray(lineStart, newline).toString('utf8')
+      lineStart = newline + 1
+      if (!line) continue
+      try {
+        const change: MasterChange = JSON.parse(line)
+        if (offset >= (cursor[change.type] ?? 0)) changes.push(change)
+      } catch {
+        // 壊れた行は読み飛ばす
+      }
+    }
+    // 追記途中の末尾の行は次回に読む
+    return { changes, end: start + lineStart }
+  }
+
+  private async readCursors(): Promise<ChangeCursors> {
+    const cursorPath = path.join(this.dir, CURSOR_FILE)
+    if (!fs.existsSync(cursorPath)) return {}
+    return JSON.parse(await fs.promises.readFile(cursorPath, 'utf8'))
+  }
+
+  private shardPath(key: string): string {
+    return path.join(this.dir, SHARD_DIR, `${key}.jsonl`)
+  }
+}
+
+function shardKey(corporateNumber: string): string {
+  return corporateNumber.replace(/\D/g, '').slice(-3).padStart(3, '0')
+}
+
+function applyOp(shard: MasterShard, op: MasterOp): void {
+  if (op.op === 'delete') {
+    shard.delete(op.corporateNumber)
+    return
+  }
+  const entry = shard.get(op.corporateNumber) ?? { current: null, history: [] }
+  if (op.op === 'current') entry.current = op.record
+  else entry.history.push(op.record)
+  shard.set(op.corporateNumber, entry)
+}
@@ -0,0 +1,209 @@
+/**
+ * Corporate Record Validator
+ * 法人番号チェックデジット・必須項目の検証と不正行の隔離（quarantine）
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type { CorporateRecord } from './corporateCsvLoader'
+
+export interface ValidationSummary {
+  total: number
+  valid: number
+  invalid: number
+  duplicates: number
+  reasons: Record<string, number>
+  quarantinePath?: string
+}
+
+export interface ValidatorOptions {
+  // 隔離ファイル出力先（未指定時は隔離ファイルを書かない）
+  quarantinePath?: string
+  // 法人番号を必須にするか（法人番号を持たないリード一覧では false）
+  requireCorporateNumber?: boolean
+  // 検証済みの法人番号と行番号の保存先（1件ずつ処理する cron でも呼び出しをまたいで重複を検出する）
+  seenNumbersPath?: string
+}
+
+/**
+ * 法人番号のチェックデジット計算（基礎番号12桁から先頭1桁を算出）
+ * 9 - (Σ 下からn桁目の数字 × (nが奇数なら1, 偶数なら2) を9で割った余り)
+ */
+export function calculateCheckDigit(baseNumber: string): number {
+  let sum = 0
+  for (let n = 1; n <= 12; n++) {
+    const digit = Number(baseNumber[12 - n])
+    sum += digit * (n % 2 === 1 ? 1 : 2)
+  }
+  return 9 - (sum % 9)
+}
+
+/**
+ * 法人番号（13桁）の妥当性チェック
+ */
+export function isValidCorporateNumber(corporateNumber: string): boolean {
+  if (!/^\d{13}$/.test(corporateNumber)) return false
+  return calculateCheckDigit(corporateNumber.slice(1)) === Number(corporateNumber[0])
+}
+
+/**
+ * 1レコードの検証エラー一覧（重複チェックは含まない）
+ */
+export function validateCorporateRecord(
+  record: CorporateRecord,
+  options: Pick<ValidatorOptions, 'requireCorporateNumber'> = {}
+): string[] {
+  const errors: string[] = []
+  const corporateNumber = record.corporateNumber || ''
+
+  if (!corporateNumber) {
+    if (options.requireCorporateNumber !== false) errors.push('法人番号なし')
+  } else if (!/^\d{13}$/.test(corporateNumber)) {
+    errors.push('法人番号形式不正')
+  } else if (!isValidCorporateNumber(corporateNumber)) {
+    errors.push('法人番号チェックデジット不一致')
+  }
+
+  if (!record.corporateName) {
+    errors.push('法人名なし')
+  }
+
+  return errors
+}
+
+const csvField = (value: string | number | undefined): string =>
+  `"${String(value ?? '').replace(/"/g, '""')}"`
+
+/**
+ * 読み込み中のレコードを検証し、不正行を隔離ファイルへ書き出す
+ */
+export class CorporateRecordValidator {
+  // 法人番号 → 最初に現れた行番号（同じ行の再処理は重複にしない）
+  private seen = new Map<string, number>()
+  private newlySeen: string[] = []
+  private pending: { rowNumber: number, line: string }[] = []
+  private summary: ValidationSummary
+
+  constructor(private readonly options: ValidatorOptions = {}) {
+    this.summary = {
+      total: 0,
+      valid: 0,
+      invalid: 0,
+      duplicates: 0,
+      reasons: {},
+      quarantinePath: options.quarantinePath
+    }
+  }
+
+  /**
+   * 既定の隔離ファイルパス（data/quarantine/<CSV名>.quarantine.csv）
+   */
+  static defaultQuarantinePath(csvPath: string): string {
+    return path.join(process.cwd(), 'data', 'quarantine', `${path.parse(csvPath).name}.quarantine.csv`)
+  }
+
+  /**
+   * 保存済みの法人番号を読み込む（seenNumbersPath 指定時、check の前に呼ぶ）
+   */
+  async load(): Promise<void> {
+    const seenNumbersPath = this.options.seenNumbersPath
+    if (!seenNumbersPath || !fs.existsSync(seenNumbersPath)) return
+
+    const content = await fs.promises.readFile(seenNumbersPath, 'utf8')
+    for (const line of content.split('\n')) {
+      const [corporateNumber, rowNumber] = line.split(',')
+      if (corporateNumber && !this.seen.has(corporateNumber)) {
+        this.seen.set(corporateNumber, Number(rowNumber))
+      }
+    }
+  }
+
+  /**
+   * 検証（不正なら理由を返して隔離、正常ならnull）
+   */
+  check(record: CorporateRecord, rowNumber: number): string[] | null {
+    this.summary.total++
+
+    const errors = validateCorporateRecord(record, this.options)
+    const corporateNumber = record.corporateNumber
+    if (errors.length === 0 && corporateNumber) {
+      const firstRow = this.seen.get(corporateNumber)
+      if (firstRow === undefined) {
+        this.seen.set(corporateNumber, rowNumber)
+        this.newlySeen.push(`${corporateNumber},${rowNumber}`)
+      } else if (firstRow !== rowNumber) {
+        errors.push('法人番号重複')
+        this.summary.duplicates++
+      }
+    }
+
+    if (errors.length === 0) {
+      this.summary.valid++
+      return null
+    }
+
+    this.summary.invalid++
+    for (const reason of errors) {
+      this.summary.reasons[reason] = (this.summary.reasons[reason] || 0) + 1
+    }
+
+    if (this.options.quarantinePath) {
+      this.pending.push({
+        rowNumber,
+        line: [
+          rowNumber,
+          errors.join(' / '),
+          record.corporateNumber,
+          record.corporateName,
+          record.住所,
+          new Date().toISOString()
+        ].map(csvField).join(',')
+      })
+    }
+
+    return errors
+  }
+
+  /**
+   * 隔離行・検証済みの法人番号をファイルへ追記（隔離済みの行番号は再読み込みしても追記しない）
+   */
+  async flush(): Promise<void> {
+    const seenNumbersPath = this.options.seenNumbersPath
+    if (seenNumbersPath && this.newlySeen.length > 0) {
+      await fs.promises.mkdir(path.dirname(seenNumbersPath), { recursive: true })
+      await fs.promises.appendFile(seenNumbersPath, this.newlySeen.join('\n') + '\n')
+      this.newlySeen = []
+    }
+
+    const quarantinePath = this.options.quarantinePath
+    if (!quarantinePath || this.pending.length === 0) return
+
+    await fs.promises.mkdir(path.dirname(quarantinePath), { recursive: true })
+    const quarantined = new Set<number>()
+    if (fs.existsSync(quarantinePath)) {
+      const content = await fs.promises.readFile(quarantinePath, 'utf8')
+      for (const line of content.split('\n')) {
+        const rowNumber = line.match(/^"(\d+)"/)?.[1]
+        if (rowNumber) quarantined.add(Number(rowNumber))
+      }
+    } else {
+      // Excelで開けるようにBOM付きUTF-8
+      await fs.promises.writeFile(quarantinePath, '﻿行番号,理由,法人番号,法人名,住所,検出日時\n')
+    }
+
+    const lines: string[] = []
+    for (const { rowNumber, line } of this.pending) {
+      if (quarantined.has(rowNumber)) continue
+      quarantined.add(rowNumber)
+      lines.push(line)
+    }
+    this.pending = []
+    if (lines.length > 0) {
+      await fs.promises.appendFile(quarantinePath, lines.join('\n') + '\n')
+    }
+  }
+
+  getSummary(): ValidationSummary {
+    return { ...this.summary, reasons: { ...this.summary.reasons } }
+  }
+}
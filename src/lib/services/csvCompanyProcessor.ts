@@ -3,54 +3,79 @@
  * 政府法人番号CSVを活用した企業情報収集システム
  */
 
-import fs from 'fs'
-import path from 'path'
-import csv from 'csv-parser'
-import { GoogleGenerativeAI } from '@google/generative-ai'
-import { chromium } from 'playwright'
+import { GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai'
 import { getPlaywrightBrowser } from '../playwright-config'
-import * as iconv from 'iconv-lite'
-
-// 政府法人番号データの型定義（北海道CSVフォーマット）
-export interface CorporateRecord {
-  // 政府法人番号データの標準フィールド
-  sequenceNumber?: string     // 連番
-  corporateNumber?: string    // 法人番号（13桁）
-  processType?: string        // 処理区分
-  correctionType?: string     // 訂正区分
-  updateDate?: string         // 更新年月日
-  changeDate?: string         // 変更年月日
-  corporateName?: string      // 法人名
-  corporateNameImageId?: string // 法人名イメージID
-  kind?: string              // 法人種別
-  prefectureCode?: string    // 都道府県コード
-  prefectureName?: string    // 都道府県名
-  cityName?: string          // 市区町村名
-  streetNumber?: string      // 丁目番地号
-  addressImageId?: string    // 住所イメージID
-  prefectureCodeAddress?: string
-  cityCodeAddress?: string
-  postalCode?: string        // 郵便番号
-  addressInside?: string     // 国内所在地
-  addressOutside?: string    // 国外所在地
-  addressImageIdInside?: string
-  addressImageIdOutside?: string
-  closeDate?: string         // 登記記録の閉鎖等年月日
-  closeCause?: string        // 登記記録の閉鎖等の事由
-  successorCorporateNumber?: string // 承継先法人番号
-  changeReason?: string      // 変更事由の詳細
-  assignmentDate?: string    // 法人番号指定年月日
-  latest?: string            // 最新履歴
-  corporateNameEn?: string   // 商号又は名称(英語表記)
-  addressOutsideEn?: string  // 国外所在地(英語表記)
-  furigana?: string         // フリガナ
-  hihyoji?: string          // 非表示
-  
-  // 互換性のためのエイリアス
-  法人番号?: string
-  法人名?: string
-  住所?: string
-}
+import type { Browser, BrowserContext, Page } from 'playwright'
+import { CorporateRecord, CsvReadOptions, CsvSourceInfo, iterateCorporateCSV, inspectCorporateCSV, loadCorporateRecords } from './corporateCsvLoader'
+import { CorporateCsvIndex } from './corporateCsvIndex'
+import { CompanyFilter, filterRejectionReason, matchesFilter } from './companyFilter'
+import { CorporateRecordValidator } from './corporateRecordValidator'
+import { SuccessorResolution, SuccessorResolver } from './successorResolver'
+import { ImportProfile, profileReadOptions, profileValidatorOptions } from './importProfiles'
+import { TraceRecorder, TraceStore, ProcessingTrace, currentTrace, runWithTrace } from './processingTrace'
+import { rateLimiterFor } from './rateLimiter'
+import { RecordingStore, ReplayOptions, ReplayRecording, replayable, runWithRecording } from './replayRecorder'
+import { SearchChain, WebSearchResult, createSearchChain, searchResultsText } from './searchProviders'
+import { searchCache } from './searchCache'
+import { budgetManager, geminiCost, isBudgetPause } from './budgetManager'
+import { CancelledError, TimeoutError, runWorkerPool, throwIfCancelled, withTimeout } from './workerPool'
+import { CrawlOptions, CrawledPage, crawlSite } from './siteCrawler'
+import { ContactForm, detectContactForm, selectContactForm } from './contactFormDetector'
+import { ClassifiedPhone, PhoneType, extractClassifiedPhones, findClassifiedPhone, selectCallablePhone } from './phoneClassifier'
+import { DomainCandidate, generateDomainCandidates, isCandidateDomain, matchDomainCandidate } from './domainCandidates'
+import { RegistryIdentity, SiteOwnership, ownershipConfidenceBonus, registryIdentity, verifySiteOwnership } from './siteOwnership'
+import {
+  ContactPoint,
+  ContactPointStore,
+  contactPointFromForm,
+  contactPointKey,
+  contactPointsFromPage,
+  createContactPoint,
+  mergeContactPoints,
+  primaryContact,
+  selectPrimaryContacts
+} from './contactPoints'
+import {
+  CONTACT_FIELDS,
+  ContactField,
+  DeterministicContact,
+  ExtractionMethod,
+  deterministicConfidence,
+  extractContactDeterministic,
+  isContactSufficient,
+  normalizePhone
+} from './contactExtractor'
+import {
+  JOB_SITES,
+  JobPostingEvidence,
+  detectEmploymentType,
+  extractJobPostingEvidence,
+  filterFreshEvidence,
+  formatEvidence,
+  jobSiteName,
+  parsePostedAt
+} from './jobPostingEvidence'
+import {
+  CONTACT_STAGES,
+  Campaign,
+  ContactCandidate,
+  StageConfig,
+  StageContext,
+  StageName,
+  StageOutcome,
+  resolveStages,
+  stageParam
+} from './enrichmentPipeline'
+import {
+  AddressMatch,
+  NormalizedAddress,
+  addressQueryTerm,
+  compareAddresses,
+  normalizeAddress,
+  normalizeRecordAddress
+} from './addressNormalizer'
+
+export type { CorporateRecord } from './corporateCsvLoader'
 
 // 検索結果の型定義
 export interface ProcessingResult {
@@ -63,17 +88,123 @@ export interface ProcessingResult {
     address?: string
     businessType?: string
     confidence: number
+    // 取得住所の正規化結果と登記住所との一致度
+    normalizedAddress?: NormalizedAddress
+    addressMatch?: AddressMatch
+    // 電話番号逆引き検証の結果と取得元の段階
+    phoneVerified?: boolean
+    source?: StageName
+    // 項目ごとの抽出方法（ルールベース / Gemini）
+    extractionMethods?: Partial<Record<ContactField, ExtractionMethod>>
+    // 問い合わせフォーム（メール未掲載の企業の連絡手段）
+    contactFormUrl?: string
+    contactForm?: ContactForm
+    // 電話番号の種別（代表・採用・携帯等）とページ内の全番号
+    phoneType?: PhoneType
+    phoneNumbers?: ClassifiedPhone[]
+    // 取得したすべての連絡先（取得元・抽出方法・確認日時付き、primary がシート掲載分）
+    contactPoints?: ContactPoint[]
+    // 公式サイトと登記情報（法人番号・登録番号・所在地・商号）の照合結果
+    siteOwnership?: SiteOwnership
   } | null
   processed: boolean
   timestamp: string
   executionTime: number
   error?: string
+  // 法人番号・必須項目の検証エラー（隔離済み・未処理）
+  validationErrors?: string[]
+  // 閉鎖法人を承継先へ付け替えた場合の元法人との関係
+  successorResolution?: SuccessorResolution
+  // 実行した各段階の結果
+  stageOutcomes?: StageOutcome[]
+  // 求人掲載の根拠（Phase 1 で確認できた掲載）
+  jobPostings?: JobPostingEvidence[]
+  // リード一覧に載っていた連絡先と電話番号逆引きの結果（未検証は phoneVerified なし）
+  importedContact?: { phoneNumber?: string, phoneVerified?: boolean, website?: string, email?: string }
+  // 検索・訪問ページ・AI判定の処理経過（data/traces に保存）
+  trace?: ProcessingTrace
+  // 企業単位のタイムアウトで打ち切った
+  timedOut?: boolean
+  // 処理中に予算上限（pause）へ達して打ち切った理由（上限の変更後に同じ企業から再開する）
+  budgetPaused?: string
+  // 通信の記録・記録からの再実行（data/recordings）
+  replay?: { mode: ReplayOptions['mode'], recordingId: string, misses: number }
+}
+
+// フィルタ一致件数基準の再開位置（次に読むデータ行とそこまでの一致件数）
+export interface FilterCursor {
+  matchedIndex: number
+  rowIndex: number
+}
+
+// 一括処理オプション
+export interface BatchOptions {
+  // 指定時は startIndex / maxRecords がフィルタ一致件数基準になる
+  filter?: CompanyFilter
+  // エンリッチ済み（承継元・承継先を含む）の法人も再処理する
+  reprocessEnriched?: boolean
+  // 国税庁形式以外のリード一覧の列マッピング
+  profile?: ImportProfile
+  // 段階構成（未指定時は従来の4段階）
+  campaign?: Campaign
+  // 同時に処理する企業数（企業ごとに独立したブラウザコンテキスト）
+  concurrency?: number
+  // 1社あたりの処理時間上限（ミリ秒、0で無制限）
+  companyTimeoutMs?: number
+  // 通信の記録、または記録からの再実行（ネットワークなし）
+  replay?: ReplayOptions
+  // 検証済み法人番号の保存先（データセット処理で呼び出しをまたいで重複を検出する）
+  seenNumbersPath?: string
+  // 前回の一括処理の終了位置（フィルタ指定時、先頭から走査し直さない）
+  filterCursor?: FilterCursor
+}
+
+// 一括処理の集計
+export interface BatchSummary {
+  total: number
+  attempted: number        // 検索処理まで進んだ件数
+  succeeded: number
+  failed: number           // 連絡先取得失敗・段階で打ち切り
+  errors: number           // 例外（他の企業の処理は継続）
+  timedOut: number
+  skipped: number          // 不正データ・閉鎖法人・エンリッチ済み・フィルタ対象外・予算上限
+  concurrency: number
+  elapsedMs: number
+  averageCompanyMs: number
+  throughputPerHour: number
+  searchCache: { hits: number, misses: number }  // この一括処理中の検索キャッシュ（再検索を省いた件数）
+  budgetPaused?: string    // 費用の上限で残りを処理しなかった理由
+  filterCursor?: FilterCursor  // フィルタ指定時の終了位置（次回の filterCursor）
+}
+
+const DEFAULT_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY || '3')
+const DEFAULT_COMPANY_TIMEOUT_MS = parseInt(process.env.COMPANY_TIMEOUT_MS || '300000')
+const PAGE_LOAD_TIMEOUT_MS = 15000
+
+const SUCCESSOR_STATUS_LABELS: Record<SuccessorResolution['status'], string> = {
+  'resolved': '承継先へ付け替え',
+  'no-successor': '承継先なし',
+  'successor-missing': '承継先がマスタに未登録',
+  'successor-closed': '承継先も閉鎖',
+  'cycle': '承継先が循環'
+}
+
+/**
+ * 中断・予算上限による一時停止は企業単位で扱うため、途中の catch で失敗扱いにせず投げ直す
+ */
+function rethrowIfHalted(error: unknown): void {
+  if (error instanceof CancelledError || isBudgetPause(error)) throw error
 }
 
 export class CSVCompanyProcessor {
   private genAI: GoogleGenerativeAI
   private model: any
-  private browser: any
+  private browser: Browser | null = null
+  private batchSummary: BatchSummary | null = null
+  private successorResolver = new SuccessorResolver()
+  private traceStore = new TraceStore()
+  private contactPointStore = new ContactPointStore()
+  private recordingStore = new RecordingStore()
 
   constructor() {
     // Use the same pattern as working feer project
@@ -89,139 +220,216 @@ export class CSVCompanyProcessor {
   }
 
   /**
-   * 政府法人番号CSV読み込み（文字化け対応）
+   * 法人CSV読み込み（文字コード・フォーマット自動判定、不正行は隔離ファイルへ）
+   * profile指定時はリード一覧の列マッピングで読み込む
    */
-  async loadCorporateCSV(csvPath: string): Promise<CorporateRecord[]> {
-    const records: CorporateRecord[] = []
-    
-    return new Promise((resolve, reject) => {
-      if (!fs.existsSync(csvPath)) {
-        reject(new Error(`CSV file not found: ${csvPath}`))
-        return
-      }
-
-      fs.createReadStream(csvPath)
-        .pipe(iconv.decodeStream('shift_jis'))
-        .pipe(csv({ 
-          headers: false  // 政府CSVはヘッダーなし
-        }))
-        .on('data', (row) => {
-          // 政府法人番号CSV標準フォーマット（配列インデックスで取得）
-          const record: CorporateRecord = {
-            sequenceNumber: row[0],       // 連番
-            corporateNumber: row[1],      // 法人番号
-            processType: row[2],          // 処理区分
-            correctionType: row[3],       // 訂正区分
-            updateDate: row[4],           // 更新年月日
-            changeDate: row[5],           // 変更年月日
-            corporateName: row[6],        // 法人名
-            corporateNameImageId: row[7], // 法人名イメージID
-            kind: row[8],                 // 法人種別
-            prefectureCode: row[9],       // 都道府県コード
-            prefectureName: row[10],      // 都道府県名
-            cityName: row[11],            // 市区町村名
-            streetNumber: row[12],        // 丁目番地号
-            addressImageId: row[13],      // 住所イメージID
-            prefectureCodeAddress: row[14],
-            cityCodeAddress: row[15],
-            postalCode: row[16],          // 郵便番号
-            addressInside: row[17],       // 国内所在地
-            addressOutside: row[18],      // 国外所在地
-            addressImageIdInside: row[19],
-            addressImageIdOutside: row[20],
-            closeDate: row[21],           // 閉鎖等年月日
-            closeCause: row[22],          // 閉鎖等事由
-            successorCorporateNumber: row[23], // 承継先法人番号
-            changeReason: row[24],        // 変更事由
-            assignmentDate: row[25],      // 法人番号指定年月日
-            latest: row[26],              // 最新履歴
-            corporateNameEn: row[27],     // 英語法人名
-            addressOutsideEn: row[28],    // 英語住所
-            furigana: row[29],            // フリガナ
-            hihyoji: row[30],             // 非表示
-            
-            // 互換性エイリアス
-            法人番号: row[1],
-            法人名: row[6],
-            住所: `${row[10] || ''}${row[11] || ''}${row[12] || ''}`.trim()
-          }
-          
-          // 法人名があるデータを取得（デバッグ用に条件を緩和）
-          if (record.corporateName || record.法人名) {
-            // デバッグ情報を出力
-            if (records.length < 3) {
-              console.log(`📋 デバッグ[${records.length}]: 法人名="${record.corporateName || record.法人名}", latest="${record.latest}"`)
-            }
-            records.push(record)
-          }
-        })
-        .on('end', () => {
-          console.log(`📄 政府CSV読み込み完了: ${records.length}件の法人データ (最新データのみ)`)
-          resolve(records)
-        })
-        .on('error', (error) => {
-          reject(error)
-        })
+  async loadCorporateCSV(csvPath: string, profile?: ImportProfile): Promise<CorporateRecord[]> {
+    const { records, validation } = await loadCorporateRecords(csvPath, {
+      quarantinePath: CorporateRecordValidator.defaultQuarantinePath(csvPath),
+      ...(profile ? { ...profileReadOptions(profile), ...profileValidatorOptions(profile) } : {})
+    })
+
+    // デバッグ情報を出力
+    records.slice(0, 3).forEach((record, i) => {
+      console.log(`📋 デバッグ[${i}]: 法人名="${record.corporateName}", latest="${record.latest}"`)
     })
+
+    console.log(`📄 法人CSV読み込み完了: 有効${validation.valid}件 / 不正${validation.invalid}件 (重複${validation.duplicates}件)`)
+    if (validation.invalid > 0) {
+      console.log(`🚫 隔離: ${validation.quarantinePath}`, validation.reasons)
+    }
+    return records
   }
 
   /**
    * Playwrightブラウザ初期化
    */
-  async initBrowser() {
-    console.log('🚀 ブラウザ初期化中...')
-    this.browser = await getPlaywrightBrowser()
+  async initBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      console.log('🚀 ブラウザ初期化中...')
+      this.browser = await getPlaywrightBrowser()
+    }
+    return this.browser
+  }
+
+  /**
+   * 単一企業の情報を検索・抽出（キャンペーンの段階構成に従う。未指定時は従来の4段階）
+   * 処理経過はトレースとして結果に付与し、法人番号ごとに保存する
+   * 企業ごとに独立したブラウザコンテキストで実行し、timeoutMs を超えたらコンテキストごと打ち切る
+   * replay 指定時は通信を記録する、または記録した応答だけで再実行する（ネットワークなし）
+   */
+  async processCompany(
+    record: CorporateRecord,
+    campaign?: Campaign | null,
+    timeoutMs: number = DEFAULT_COMPANY_TIMEOUT_MS,
+    replay?: ReplayOptions
+  ): Promise<ProcessingResult> {
+    const startTime = Date.now()
+    const recorder = new TraceRecorder({
+      corporateNumber: record.corporateNumber,
+      companyName: record.corporateName || record.法人名 || '',
+      campaignId: campaign?.id
+    })
+
+    let context: BrowserContext | undefined
+    let recording: ReplayRecording | undefined
+    let result: ProcessingResult
+    try {
+      if (replay) {
+        recording = await this.recordingStore.open({
+          corporateNumber: record.corporateNumber,
+          companyName: record.corporateName || record.法人名 || '',
+          campaignId: campaign?.id
+        }, replay)
+        console.log(`${replay.mode === 'record' ? '⏺️ 通信を記録' : '⏯️ 記録から再実行'}: ${recording.meta.recordingId}`)
+      }
+      const browser = await this.initBrowser()
+      context = await browser.newContext()
+      await recording?.attach(context)
+      const page = await context.newPage()
+      const run = () => withTimeout(
+        () => this.runPipeline(record, page, campaign),
+        timeoutMs,
+        () => { context?.close().catch(() => undefined) }
+      )
+      result = await runWithTrace(recorder, () => recording ? runWithRecording(recording, run) : run())
+    } catch (error) {
+      const timedOut = error instanceof TimeoutError
+      const budgetPaused = isBudgetPause(error) ? error.message : undefined
+      const message = timedOut
+        ? `処理タイムアウト (${Math.round(timeoutMs / 1000)}秒)`
+        : budgetPaused ? `一時停止: ${budgetPaused}`
+          : error instanceof Error ? error.message : String(error)
+      console.error(`${timedOut ? '⏱️' : budgetPaused ? '⏸️' : '❌'} ${message} [${record.corporateName || record.法人名}]`)
+      recorder.record({ type: 'error', error: message })
+      result = { ...this.createResult(record, null, false, Date.now() - startTime, message), timedOut, budgetPaused }
+    } finally {
+      await context?.close().catch(() => undefined)
+    }
+
+    if (recording) {
+      result.replay = { mode: recording.mode, recordingId: recording.meta.recordingId, misses: recording.misses }
+      try {
+        await recording.finish({
+          processed: result.processed,
+          confidence: result.scrapingResult?.confidence,
+          phoneNumber: result.scrapingResult?.phoneNumber,
+          email: result.scrapingResult?.email,
+          website: result.scrapingResult?.website,
+          error: result.error
+        })
+      } catch (error) {
+        console.warn('⚠️ 通信記録の保存エラー (処理は続行):', error instanceof Error ? error.message : error)
+      }
+    }
+
+    result.trace = recorder.finish({
+      processed: result.processed,
+      hasContact: !!result.scrapingResult,
+      error: result.error
+    })
+
+    // 再実行の結果は過去の応答に基づくためトレース・連絡先一覧へは反映しない（トレースは結果に付与）
+    if (recording?.mode !== 'replay') {
+      try {
+        await this.traceStore.save(result.trace)
+      } catch (error) {
+        console.warn('⚠️ トレース保存エラー (処理は続行):', error instanceof Error ? error.message : error)
+      }
+    }
+
+    if (result.scrapingResult?.contactPoints && recording?.mode !== 'replay') {
+      try {
+        await this.saveContactPoints(record, result.scrapingResult.contactPoints)
+      } catch (error) {
+        console.warn('⚠️ 連絡先一覧保存エラー (処理は続行):', error instanceof Error ? error.message : error)
+      }
+    }
+    return result
+  }
+
+  /**
+   * 今回の連絡先を企業ごとの一覧へ統合（初回確認日時は過去の記録を引き継ぐ）
+   */
+  private async saveContactPoints(record: CorporateRecord, points: ContactPoint[]): Promise<void> {
+    const stored = await this.contactPointStore.merge({
+      corporateNumber: record.corporateNumber,
+      companyName: record.corporateName || record.法人名 || ''
+    }, points)
+    const firstSeen = new Map(stored.points.map(point => [contactPointKey(point), point.firstSeenAt]))
+    for (const point of points) {
+      point.firstSeenAt = firstSeen.get(contactPointKey(point)) ?? point.firstSeenAt
+    }
   }
 
   /**
-   * 単一企業の情報を検索・抽出（4段階戦略）
+   * 段階構成に従って順に実行
    */
-  async processCompany(record: CorporateRecord): Promise<ProcessingResult> {
+  private async runPipeline(record: CorporateRecord, page: Page, campaign?: Campaign | null): Promise<ProcessingResult> {
     const startTime = Date.now()
+    const stages = resolveStages(campaign).filter(config => config.enabled)
+    let ctx: StageContext | null = null
     
     try {
-      const page = await this.browser.newPage()
       const companyName = record.corporateName || record.法人名 || ''
-      const cityName = record.cityName || record.prefectureName || ''
-      
-      console.log(`🔍 4段階処理開始: ${companyName} (${cityName})`)
-
-      // Phase 1: 企業特定求人募集確認（3段階検証システム）
-      console.log('🎯 Phase 1: 企業特定求人募集確認（3段階検証システム）')
-      const hasJobPosting = await this.checkJobPosting(page, companyName, cityName)
-      if (!hasJobPosting) {
-        await page.close()
-        return this.createResult(record, null, false, Date.now() - startTime, '求人募集なし')
-      }
-
-      // Phase 2: 公式サイト経由連絡先取得
-      console.log('🏢 Phase 2: 公式サイト連絡先取得')
-      const officialContact = await this.getOfficialContact(page, companyName, cityName)
-      if (officialContact) {
-        const verified = await this.verifyContact(page, officialContact, companyName)
-        if (verified) {
-          await page.close()
-          return this.createResult(record, officialContact, true, Date.now() - startTime)
-        }
+      const registryAddress = normalizeRecordAddress(record)
+      const cityName = addressQueryTerm(registryAddress) || record.cityName || record.prefectureName || ''
+      ctx = {
+        record,
+        companyName,
+        cityName,
+        registryAddress,
+        page,
+        searchChain: createSearchChain({ page, order: campaign?.searchProviders }),
+        contact: null,
+        phoneVerification: stages.find(config => config.stage === 'phoneVerification'),
+        signals: {},
+        jobPostings: [],
+        outcomes: []
       }
+      
+      console.log(`🔍 段階処理開始: ${companyName} (${cityName}) [${stages.map(config => config.stage).join(' → ')}]`)
+
+      for (const config of stages) {
+        // 電話番号検証は連絡先候補ごとに適用する
+        if (config.stage === 'phoneVerification') continue
 
-      // Phase 3: 直接検索（5回試行）
-      console.log('🔍 Phase 3: 直接検索（5回試行）')
-      const directContact = await this.tryDirectSearch(page, companyName, cityName)
-      if (directContact) {
-        const verified = await this.verifyContact(page, directContact, companyName)
-        if (verified) {
-          await page.close()
-          return this.createResult(record, directContact, true, Date.now() - startTime)
+        if (ctx.contact && CONTACT_STAGES.includes(config.stage)) {
+          ctx.outcomes.push({ stage: config.stage, mode: config.mode, passed: true, skipped: true, reason: '連絡先取得済み', executionTime: 0 })
+          continue
+        }
+
+        const stageStart = Date.now()
+        currentTrace()?.setStage(config.stage)
+        const { passed, reason } = await this.runStage(config, ctx)
+        ctx.outcomes.push({ stage: config.stage, mode: config.mode, passed, reason, executionTime: Date.now() - stageStart })
+        currentTrace()?.record({ type: 'stage', name: config.mode, passed, reason, durationMs: Date.now() - stageStart })
+
+        if (!passed && config.mode === 'gate') {
+          console.log(`⛔ ${config.stage}: ${reason}（打ち切り）`)
+          return {
+            ...this.createResult(record, null, false, Date.now() - startTime, reason),
+            stageOutcomes: ctx.outcomes,
+            jobPostings: ctx.jobPostings,
+            importedContact: await this.checkImportedContact(ctx, false)
+          }
+        }
+        if (!passed) {
+          console.log(`⚠️ ${config.stage}: ${reason}（参考扱いで続行）`)
         }
       }
 
-      await page.close()
-      return this.createResult(record, null, false, Date.now() - startTime, '連絡先取得失敗')
+      const importedContact = await this.checkImportedContact(ctx, true)
+      if (ctx.contact) {
+        return { ...this.createResult(record, ctx.contact, true, Date.now() - startTime), stageOutcomes: ctx.outcomes, jobPostings: ctx.jobPostings, importedContact }
+      }
+      return { ...this.createResult(record, null, false, Date.now() - startTime, '連絡先取得失敗'), stageOutcomes: ctx.outcomes, jobPostings: ctx.jobPostings, importedContact }
 
     } catch (error) {
+      rethrowIfHalted(error)
       const executionTime = Date.now() - startTime
       console.error(`❌ 処理エラー [${record.corporateName || record.法人名}]:`, error)
+      currentTrace()?.record({ type: 'error', error: error instanceof Error ? error.message : String(error) })
       
       return {
         originalData: record,
@@ -229,19 +437,181 @@ export class CSVCompanyProcessor {
         processed: false,
         timestamp: new Date().toISOString(),
         executionTime,
-        error: error instanceof Error ? error.message : String(error)
+        error: error instanceof Error ? error.message : String(error),
+        stageOutcomes: ctx?.outcomes,
+        jobPostings: ctx?.jobPostings
+      }
+    }
+  }
+
+  /**
+   * リード一覧の既知の連絡先（電話番号検証が有効なら既存電話番号も逆引きする）
+   */
+  private async checkImportedContact(ctx: StageContext, verify: boolean): Promise<ProcessingResult['importedContact']> {
+    const { website, email } = ctx.record
+    const phoneNumber = normalizePhone(ctx.record.phoneNumber) ?? ctx.record.phoneNumber
+    if (!phoneNumber && !website && !email) return undefined
+    if (!verify || !phoneNumber || !ctx.phoneVerification) return { phoneNumber, website, email }
+
+    // 取得した連絡先と同じ番号なら逆引き済みの結果を使う
+    if (ctx.contact?.phoneVerified !== undefined && normalizePhone(ctx.contact.phoneNumber) === phoneNumber) {
+      return { phoneNumber, phoneVerified: ctx.contact.phoneVerified, website, email }
+    }
+    currentTrace()?.setStage('phoneVerification')
+    const phoneVerified = await this.verifyContact(ctx.searchChain, { phoneNumber }, ctx.companyName)
+    currentTrace()?.record({ type: 'check', name: '既存電話番号検証', passed: phoneVerified, detail: { phoneNumber } })
+    return { phoneNumber, phoneVerified, website, email }
+  }
+
+  /**
+   * 1段階の実行（passed=false の扱いは mode による）
+   */
+  private async runStage(config: StageConfig, ctx: StageContext): Promise<{ passed: boolean, reason?: string }> {
+    switch (config.stage) {
+      case 'jobPosting': {
+        console.log('🎯 求人募集確認（3段階検証システム）')
+        const maxAgeDays = stageParam(config, 'maxAgeDays', 0)
+        ctx.jobPostings = await this.checkJobPosting(
+          ctx.page, ctx.searchChain, ctx.companyName, ctx.cityName,
+          stageParam(config, 'maxQueries', 5),
+          maxAgeDays
+        )
+        ctx.signals.hasJobPosting = ctx.jobPostings.length > 0
+        if (ctx.jobPostings.length > 0) return { passed: true }
+        return { passed: false, reason: maxAgeDays > 0 ? `求人募集なし（${maxAgeDays}日以内の掲載なし）` : '求人募集なし' }
+      }
+
+      case 'officialSite': {
+        console.log('🏢 公式サイト連絡先取得')
+        const candidate = await this.getOfficialContact(
+          ctx.page, ctx.searchChain, ctx.companyName, ctx.cityName,
+          stageParam(config, 'maxQueries', 3),
+          stageParam(config, 'maxResults', 3),
+          {
+            maxDepth: stageParam(config, 'crawlDepth', 2),
+            maxPages: stageParam(config, 'crawlMaxPages', 6)
+          },
+          registryIdentity(ctx.record, ctx.registryAddress),
+          generateDomainCandidates(ctx.record, stageParam(config, 'domainCandidates', 8))
+        )
+        return this.acceptContact(ctx, candidate, config.stage, '公式サイト連絡先取得失敗')
+      }
+
+      case 'directSearch': {
+        const maxAttempts = stageParam(config, 'maxAttempts', 5)
+        console.log(`🔍 直接検索（${maxAttempts}回試行）`)
+        const candidate = await this.tryDirectSearch(
+          ctx.page, ctx.searchChain, ctx.companyName, ctx.cityName,
+          maxAttempts,
+          stageParam(config, 'maxResults', 3),
+          stageParam(config, 'optimizeQuery', true)
+        )
+        return this.acceptContact(ctx, candidate, config.stage, '直接検索失敗')
+      }
+
+      default:
+        return { passed: true }
+    }
+  }
+
+  /**
+   * 連絡先候補の採否（登記住所照合 → 電話番号検証）
+   */
+  private async acceptContact(
+    ctx: StageContext,
+    candidate: ContactCandidate | null,
+    stage: StageName,
+    failureReason: string
+  ): Promise<{ passed: boolean, reason?: string }> {
+    if (!candidate) {
+      return { passed: false, reason: failureReason }
+    }
+    candidate.source = stage
+
+    const addressMatched = this.matchRegistryAddress(candidate, ctx.registryAddress)
+    currentTrace()?.record({
+      type: 'check',
+      name: '登記住所照合',
+      passed: addressMatched,
+      detail: { address: candidate.address, addressMatch: candidate.addressMatch }
+    })
+    if (!addressMatched) {
+      return { passed: false, reason: '住所不一致' }
+    }
+
+    const verification = ctx.phoneVerification
+    if (verification) {
+      const verifyStart = Date.now()
+      currentTrace()?.setStage('phoneVerification')
+      const verified = await this.verifyContact(ctx.searchChain, candidate, ctx.companyName)
+      candidate.phoneVerified = verified
+      this.markPhoneVerified(candidate, verified)
+      const reason = verified ? undefined : '電話番号逆引きで企業名不一致'
+      ctx.outcomes.push({
+        stage: 'phoneVerification',
+        mode: verification.mode,
+        passed: verified,
+        reason,
+        executionTime: Date.now() - verifyStart
+      })
+      currentTrace()?.record({ type: 'stage', name: verification.mode, passed: verified, reason, durationMs: Date.now() - verifyStart })
+      currentTrace()?.setStage(stage)
+      if (!verified && verification.mode === 'gate') {
+        return { passed: false, reason: '電話番号検証失敗' }
       }
     }
+
+    ctx.contact = this.applyPrimaryContacts(candidate)
+    return { passed: true }
+  }
+
+  /**
+   * 電話番号逆引きの結果を連絡先一覧へ反映
+   */
+  private markPhoneVerified(candidate: ContactCandidate, verified: boolean): void {
+    if (!candidate.phoneNumber || !candidate.contactPoints) return
+    const key = contactPointKey({ type: 'phone', value: candidate.phoneNumber })
+    const point = candidate.contactPoints.find(p => contactPointKey(p) === key)
+    if (!point) return
+    point.phoneVerified = verified
+    if (verified) point.lastVerifiedAt = new Date().toISOString()
+  }
+
+  /**
+   * 連絡先一覧から種別ごとの代表を選び、シート掲載用の項目へ反映
+   */
+  private applyPrimaryContacts(candidate: ContactCandidate): ContactCandidate {
+    if (!candidate.contactPoints || candidate.contactPoints.length === 0) return candidate
+    candidate.contactPoints = selectPrimaryContacts(candidate.contactPoints)
+
+    const phone = primaryContact(candidate.contactPoints, 'phone')
+    if (phone && phone.value !== candidate.phoneNumber) {
+      console.log(`📇 代表電話番号を選択: ${phone.value}${phone.phoneType ? ` (${phone.phoneType})` : ''}`)
+      candidate.phoneNumber = phone.value
+      candidate.phoneType = phone.phoneType
+      candidate.phoneVerified = phone.phoneVerified
+    }
+    candidate.email = primaryContact(candidate.contactPoints, 'email')?.value ?? candidate.email
+    candidate.contactFormUrl = primaryContact(candidate.contactPoints, 'form')?.value ?? candidate.contactFormUrl
+    candidate.website ??= primaryContact(candidate.contactPoints, 'website')?.value
+    return candidate
   }
 
   /**
    * Phase 1: 企業特定求人募集確認（3段階検証システム）
    */
-  private async checkJobPosting(page: any, companyName: string, cityName: string): Promise<boolean> {
+  private async checkJobPosting(
+    page: any,
+    searchChain: SearchChain,
+    companyName: string,
+    cityName: string,
+    maxQueries: number = 5,
+    maxAgeDays: number = 0
+  ): Promise<JobPostingEvidence[]> {
     try {
       console.log(`🎯 Phase 1: 企業特定求人募集確認開始`)
       
-      // Stage 1: DuckDuckGo厳密検索クエリ
+      // Stage 1: 厳密検索クエリ
       const strictJobQueries = [
         `"${companyName}" intitle:求人 site:indeed.com`,
         `"${companyName}" intitle:採用 site:rikunabi.com`,
@@ -250,114 +620,130 @@ export class CSVCompanyProcessor {
         `"${companyName}" ${cityName} 求人 OR 採用`
       ]
 
-      for (const query of strictJobQueries) {
+      for (const query of strictJobQueries.slice(0, maxQueries)) {
         console.log(`🔍 厳密検索: ${query}`)
-        const hasValidJobPosting = await this.searchAndVerifyJobPosting(page, query, companyName)
+        const evidence = await this.searchAndVerifyJobPosting(page, searchChain, query, companyName)
         
-        if (hasValidJobPosting) {
-          console.log('✅ 企業特定の求人募集を確認')
-          return true
+        // 掲載日の条件がある場合は期間内の掲載のみ採用（掲載日不明は除外）
+        const fresh = filterFreshEvidence(evidence, maxAgeDays)
+        if (fresh.length < evidence.length) {
+          console.log(`📅 ${maxAgeDays}日より古い・掲載日不明の求人を除外: ${evidence.length - fresh.length}件`)
+          currentTrace()?.record({
+            type: 'check',
+            name: '求人掲載日',
+            passed: fresh.length > 0,
+            detail: { maxAgeDays, postedAt: evidence.map(e => e.postedAt ?? null) }
+          })
         }
         
-        await page.waitForTimeout(1000) // レート制限対策
+        if (fresh.length > 0) {
+          console.log(`✅ 企業特定の求人募集を確認: ${fresh.map(formatEvidence).join(' / ')}`)
+          return fresh
+        }
       }
 
       console.log('❌ 企業特定の求人募集なし')
-      return false
+      return []
       
     } catch (error) {
+      rethrowIfHalted(error)
       console.error('求人確認エラー:', error)
-      return false
+      return []
     }
   }
 
   /**
    * 検索・転職サイト深掘り・AI検証の統合メソッド
    */
-  private async searchAndVerifyJobPosting(page: any, query: string, companyName: string): Promise<boolean> {
+  private async searchAndVerifyJobPosting(page: any, searchChain: SearchChain, query: string, companyName: string): Promise<JobPostingEvidence[]> {
     try {
-      await page.goto('https://duckduckgo.com/')
-      await page.waitForTimeout(2000)
-
-      await page.fill('input[name="q"]', query)
-      await page.press('input[name="q"]', 'Enter')
-      await page.waitForTimeout(5000)
+      const response = await searchChain.search(query)
 
       // 検索結果が全くない場合の早期チェック
-      const content = await page.content()
-      if (content.includes('No results') || content.includes('検索結果が見つかりません') || content.includes('何も見つかりませんでした') || content.includes('に関する結果は見つかりませんでした。')) {
+      if (response.results.length === 0) {
         console.log('❌ 検索結果なし - 早期終了してスプレッドシート保存')
-        return false
+        currentTrace()?.record({ type: 'check', name: '検索結果なし', passed: false, detail: { query } })
+        return []
       }
 
-      // Stage 2: 転職サイト検出と深掘り検証
-      const jobSiteResults = await this.extractJobSiteLinks(page)
+      // Stage 2: 転職サイト検出と深掘り検証（確認できた掲載をすべて根拠として残す）
+      const searchResults = response.results
+      const jobSiteResults = searchResults
+        .filter(result => Object.keys(JOB_SITES).some(domain => result.url.includes(domain)))
+        .slice(0, 3) // 最大3サイトまで
+      const evidence: JobPostingEvidence[] = []
       
       for (const jobSite of jobSiteResults) {
         console.log(`🏢 転職サイト深掘り検証: ${jobSite.url}`)
         
-        const isValidCompanyJob = await this.verifyJobSiteContent(page, jobSite, companyName)
-        if (isValidCompanyJob) {
-          return true
+        const posting = await this.verifyJobSiteContent(page, jobSite, companyName)
+        if (posting) {
+          evidence.push(posting)
         }
       }
+      if (evidence.length > 0) {
+        return evidence
+      }
 
       // Stage 3: 検索結果内の企業名密度チェック
+      const content = searchResultsText(response)
       const companyMentionCount = this.countCompanyMentions(content, companyName)
+      currentTrace()?.record({
+        type: 'check',
+        name: '検索結果内企業名密度',
+        passed: companyMentionCount >= 3,
+        detail: { query, mentions: companyMentionCount }
+      })
       
       if (companyMentionCount >= 3) {
         console.log(`🎯 検索結果内企業名密度OK (${companyMentionCount}回言及)`)
         
-        // AI意味解析による最終検証
+        // AI意味解析による最終検証（根拠は企業名を含む検索結果）
         const aiVerification = await this.verifyWithGeminiAI(content, companyName)
-        return aiVerification
+        return aiVerification ? this.searchResultEvidence(searchResults, companyName) : []
       }
 
-      return false
+      return []
       
     } catch (error) {
+      rethrowIfHalted(error)
       console.error('検索検証エラー:', error)
-      return false
+      return []
     }
   }
 
   /**
-   * 転職サイトのリンクを抽出
+   * 検索結果のタイトル・スニペットから求人の根拠を作成（掲載ページ未確認）
    */
-  private async extractJobSiteLinks(page: any): Promise<Array<{url: string, title: string}>> {
-    try {
-      const jobSiteDomains = ['indeed.com', 'rikunabi.com', 'mynavi.jp', 'doda.com', 'en-japan.com', 'bizreach.co.jp']
-      
-      const jobSiteLinks = await page.evaluate((domains: string[]) => {
-        const links: Array<{url: string, title: string}> = []
-        const results = document.querySelectorAll('a[data-testid="result-title-a"]')
-        
-        results.forEach((link: any) => {
-          const href = link.href
-          const title = link.textContent || ''
-          
-          if (domains.some(domain => href.includes(domain))) {
-            links.push({ url: href, title: title })
-          }
-        })
-        
-        return links.slice(0, 3) // 最大3サイトまで
-      }, jobSiteDomains)
-
-      return jobSiteLinks
-    } catch (error) {
-      console.error('転職サイトリンク抽出エラー:', error)
-      return []
-    }
+  private searchResultEvidence(
+    searchResults: Array<{ url: string, title: string, snippet: string }>,
+    companyName: string
+  ): JobPostingEvidence[] {
+    const cleanCompanyName = companyName.replace(/株式会社|有限会社|合同会社|合資会社|合名会社/g, '').trim()
+    return searchResults
+      .filter(result => `${result.title} ${result.snippet}`.includes(cleanCompanyName))
+      .slice(0, 3)
+      .map(result => ({
+        site: jobSiteName(result.url),
+        url: result.url,
+        title: result.title,
+        employmentType: detectEmploymentType(`${result.title} ${result.snippet}`),
+        postedAt: parsePostedAt(result.snippet),
+        verifiedBy: 'searchResult' as const
+      }))
   }
 
   /**
    * 転職サイト内容の企業特定性検証
    */
-  private async verifyJobSiteContent(page: any, jobSite: {url: string, title: string}, companyName: string): Promise<boolean> {
+  private async verifyJobSiteContent(
+    page: any,
+    jobSite: {url: string, title: string},
+    companyName: string
+  ): Promise<JobPostingEvidence | null> {
     try {
-      await page.goto(jobSite.url)
-      await page.waitForTimeout(3000)
+      const visitStart = Date.now()
+      await page.goto(jobSite.url, { timeout: PAGE_LOAD_TIMEOUT_MS })
 
       const pageContent = await page.content()
       
@@ -370,11 +756,21 @@ export class CSVCompanyProcessor {
       console.log(`📊 企業名言及: ${companyMentions}回, 他社言及: ${competitorMentions}回`)
       
       // 企業名言及が多く、他社言及が少ない場合は有効
-      return companyMentions >= 3 && companyMentions > competitorMentions
+      const isValid = companyMentions >= 3 && companyMentions > competitorMentions
+      currentTrace()?.record({
+        type: 'visit',
+        url: jobSite.url,
+        title: jobSite.title,
+        passed: isValid,
+        detail: { companyMentions, competitorMentions },
+        durationMs: Date.now() - visitStart
+      })
+      return isValid ? extractJobPostingEvidence(pageContent, jobSite.url, jobSite.title) : null
       
     } catch (error) {
+      rethrowIfHalted(error)
       console.error('転職サイト内容検証エラー:', error)
-      return false
+      return null
     }
   }
 
@@ -432,13 +828,14 @@ ${content.substring(0, 3000)}
 回答は「true」または「false」のみで答えてください。
 `
 
-      const result = await model.generateContent(prompt)
-      const aiResponse = result.response.text().trim().toLowerCase()
+      const aiResponse = (await this.generateText('求人内容判定', prompt, model)).trim().toLowerCase()
       
       console.log(`🤖 AI判定結果: ${aiResponse}`)
+      currentTrace()?.verdict('求人内容判定', aiResponse.includes('true'))
       return aiResponse.includes('true')
       
     } catch (error) {
+      rethrowIfHalted(error)
       console.error('AI検証エラー:', error)
       return false
     }
@@ -447,64 +844,92 @@ ${content.substring(0, 3000)}
   /**
    * Phase 2: 公式サイト経由連絡先取得
    */
-  private async getOfficialContact(page: any, companyName: string, cityName: string): Promise<any> {
+  private async getOfficialContact(
+    page: any,
+    searchChain: SearchChain,
+    companyName: string,
+    cityName: string,
+    maxQueries: number = 3,
+    maxResults: number = 3,
+    crawlOptions: CrawlOptions = {},
+    registry?: RegistryIdentity,
+    domainCandidates: DomainCandidate[] = []
+  ): Promise<any> {
     try {
       const searchQueries = [
         `${companyName} ${cityName} プライバシーポリシー`,
         `${companyName} ${cityName} 利用規約`,
-        `${companyName} ${cityName} 会社概要 site:${companyName.replace(/株式会社|有限会社/g, '').trim()}.co.jp`
+        domainCandidates.length > 0
+          ? `${companyName} 会社概要 site:${domainCandidates[0].domain}`
+          : `${companyName} ${cityName} 会社概要`
       ]
+      let formOnlyContact: ContactCandidate | null = null
+
+      // フリガナ・英語表記から作ったドメイン候補が検索結果にあれば、公式サイト判定を省いて直接巡回
+      const guessed = await this.tryDomainCandidates(page, searchChain, companyName, cityName, domainCandidates, crawlOptions, registry)
+        .catch(error => {
+          rethrowIfHalted(error)
+          console.log(`ドメイン候補照合失敗: ${error instanceof Error ? error.message : error}`)
+          return null
+        })
+      if (guessed?.contact) return guessed.contact
+      formOnlyContact = guessed?.formOnly ?? null
 
-      for (const query of searchQueries) {
+      for (const query of searchQueries.slice(0, maxQueries)) {
         console.log(`🔎 公式サイト検索: ${query}`)
         
-        await page.goto('https://duckduckgo.com/')
-        await page.waitForTimeout(2000)
-        
-        await page.fill('input[name="q"]', query)
-        await page.press('input[name="q"]', 'Enter')
-        await page.waitForTimeout(5000)
+        const { results } = await searchChain.search(query)
 
         // 公式っぽいリンクを探してアクセス
-        const resultLinks = await page.locator('a[data-testid="result-title-a"]').all()
-        
-        for (let i = 0; i < Math.min(3, resultLinks.length); i++) {
+        for (const result of results.slice(0, maxResults)) {
           try {
-            const link = resultLinks[i]
-            const linkText = await link.textContent()
-            
-            // 公式サイトっぽいかAIで判定
-            if (await this.isOfficialSite(linkText || '', companyName)) {
-              await link.click()
-              await page.waitForTimeout(5000)
+            // ドメイン候補に一致するリンクは公式サイトとして扱い、それ以外はAIで判定
+            if (isCandidateDomain(result.url, domainCandidates) || await this.isOfficialSite(result.title, companyName)) {
+              await this.visitSearchResult(page, result)
               
-              const htmlContent = await page.content()
-              const contactInfo = await this.extractCompanyInfo(htmlContent, companyName)
-              
-              if (contactInfo && (contactInfo.phoneNumber || contactInfo.email)) {
-                console.log('✅ 公式サイト連絡先取得成功')
-                return contactInfo
+              // 会社概要・お問い合わせ・特定商取引法の表記など、連絡先が載りやすいページから順に抽出
+              const sitePages = await crawlSite(page, page.url(), { ...crawlOptions, timeoutMs: PAGE_LOAD_TIMEOUT_MS })
+              const ownership = registry ? this.checkSiteOwnership(sitePages, registry) : undefined
+              if (ownership?.verdict !== 'rejected') {
+                const { contact, formOnly } = await this.contactFromSite(sitePages, companyName, ownership)
+                if (contact) return contact
+                formOnlyContact ??= formOnly
               }
             }
           } catch (e) {
+            rethrowIfHalted(e)
             console.log(`公式サイトアクセス失敗: ${e}`)
           }
         }
       }
 
+      if (formOnlyContact) {
+        console.log(`📝 公式サイト問い合わせフォームのみ取得: ${formOnlyContact.contactFormUrl}`)
+        return formOnlyContact
+      }
+
       console.log('❌ 公式サイト連絡先取得失敗')
       return null
       
     } catch (error) {
+      rethrowIfHalted(error)
       console.error('公式サイト検索エラー:', error)
       return null
     }
   }
 
   /**
-   * Phase 3: 直接検索（5回試行）
+   * Phase 3: 直接検索（既定5回試行）
    */
-  private async tryDirectSearch(page: any, companyName: string, cityName: string): Promise<any> {
+  private async tryDirectSearch(
+    page: any,
+    searchChain: SearchChain,
+    companyName: string,
+    cityName: string,
+    maxAttempts: number = 5,
+    maxResults: number = 3,
+    optimizeQuery: boolean = true
+  ): Promise<any> {
     const searchStrategies = [
       `${companyName} ${cityName} 電話番号`,
       `${companyName} ${cityName} メールアドレス`,
@@ -513,66 +938,60 @@ ${content.substring(0, 3000)}
       `${companyName} ${cityName} 連絡先`
     ]
 
-    for (let i = 0; i < searchStrategies.length; i++) {
+    const attempts = Math.min(maxAttempts, searchStrategies.length)
+    for (let i = 0; i < attempts; i++) {
       try {
         const query = searchStrategies[i]
-        console.log(`🔍 直接検索 ${i + 1}/5: ${query}`)
+        console.log(`🔍 直接検索 ${i + 1}/${attempts}: ${query}`)
 
-        await page.goto('https://duckduckgo.com/')
-        await page.waitForTimeout(2000)
-        
-        await page.fill('input[name="q"]', query)
-        await page.press('input[name="q"]', 'Enter')
-        await page.waitForTimeout(5000)
+        let { results } = await searchChain.search(query)
 
         // AIで検索クエリを最適化
-        const optimizedQuery = await this.optimizeSearchQuery(query, i + 1)
+        const optimizedQuery = optimizeQuery ? await this.optimizeSearchQuery(query, i + 1) : query
         if (optimizedQuery !== query) {
           console.log(`🤖 AI最適化クエリ: ${optimizedQuery}`)
-          await page.fill('input[name="q"]', optimizedQuery)
-          await page.press('input[name="q"]', 'Enter')
-          await page.waitForTimeout(5000)
+          results = (await searchChain.search(optimizedQuery)).results
         }
 
-        // 上位3結果を確認
-        const resultLinks = await page.locator('a[data-testid="result-title-a"]').all()
-        
-        for (let j = 0; j < Math.min(3, resultLinks.length); j++) {
+        // 上位結果を確認（既定3件）
+        for (const result of results.slice(0, maxResults)) {
           try {
-            const link = resultLinks[j]
-            await link.click()
-            await page.waitForTimeout(5000)
+            const visitStart = Date.now()
+            await this.visitSearchResult(page, result)
             
             const htmlContent = await page.content()
-            const contactInfo = await this.extractCompanyInfo(htmlContent, companyName)
+            const contactInfo = await this.extractCompanyInfo(htmlContent, companyName, page.url())
+            currentTrace()?.record({
+              type: 'visit',
+              url: page.url(),
+              passed: Boolean(contactInfo && (contactInfo.phoneNumber || contactInfo.email)),
+              durationMs: Date.now() - visitStart
+            })
             
             if (contactInfo && (contactInfo.phoneNumber || contactInfo.email)) {
               console.log(`✅ 直接検索成功 (試行${i + 1})`)
               return contactInfo
             }
             
-            // 戻る
-            await page.goBack()
-            await page.waitForTimeout(2000)
-            
           } catch (e) {
             console.log(`直接検索リンクアクセス失敗: ${e}`)
           }
         }
         
       } catch (error) {
+        rethrowIfHalted(error)
         console.error(`直接検索エラー (試行${i + 1}):`, error)
       }
     }
 
-    console.log('❌ 直接検索5回試行すべて失敗')
+    console.log(`❌ 直接検索${attempts}回試行すべて失敗`)
     return null
   }
 
   /**
    * Phase 4: 連絡先検証（電話番号逆引き）
    */
-  private async verifyContact(page: any, contactInfo: any, expectedCompanyName: string): Promise<boolean> {
+  private async verifyContact(searchChain: SearchChain, contactInfo: any, expectedCompanyName: string): Promise<boolean> {
     if (!contactInfo.phoneNumber) {
       return true // 電話番号がない場合はメール等で検証スキップ
     }
@@ -580,17 +999,10 @@ ${content.substring(0, 3000)}
     try {
       console.log(`📞 Phase 4: 電話番号検証 ${contactInfo.phoneNumber}`)
       
-      await page.goto('https://duckduckgo.com/')
-      await page.waitForTimeout(2000)
-      
       const phoneQuery = `${contactInfo.phoneNumber}`
       console.log(`🔎 電話番号逆引き: ${phoneQuery}`)
-      
-      await page.fill('input[name="q"]', phoneQuery)
-      await page.press('input[name="q"]', 'Enter')
-      await page.waitForTimeout(5000)
-      
-      const searchResults = await page.content()
+
+      const searchResults = searchResultsText(await searchChain.search(phoneQuery))
       
       // AIで企業名一致判定
       const isMatch = await this.verifyCompanyNameMatch(searchResults, expectedCompanyName)
@@ -604,15 +1016,249 @@ ${content.substring(0, 3000)}
       }
       
     } catch (error) {
+      rethrowIfHalted(error)
       console.error('電話番号検証エラー:', error)
       return false
     }
   }
 
   /**
-   * Gemini AIで企業情報抽出（新SDK + 構造化出力使用）
+   * ドメイン候補を企業名検索の結果と照合し、一致したサイトを巡回
+   * リード一覧のURLは検索せずに先に巡回する（連絡先が取れなければ検索結果との照合へ進む）
+   */
+  private async tryDomainCandidates(
+    page: Page,
+    searchChain: SearchChain,
+    companyName: string,
+    cityName: string,
+    domainCandidates: DomainCandidate[],
+    crawlOptions: CrawlOptions,
+    registry?: RegistryIdentity
+  ): Promise<{ contact: ContactCandidate | null, formOnly: ContactCandidate | null } | null> {
+    if (domainCandidates.length === 0) return null
+
+    const imported = domainCandidates.find(candidate => candidate.source === 'imported' && candidate.url)
+    if (imported?.url) {
+      console.log(`🌐 リード一覧のURLを巡回: ${imported.url}`)
+      const visited = await this.visitCandidateSite(page, imported.url, companyName, crawlOptions, registry)
+      currentTrace()?.record({
+        type: 'check',
+        name: 'リード一覧URL巡回',
+        url: imported.url,
+        passed: Boolean(visited?.contact || visited?.formOnly)
+      })
+      if (visited?.contact) return visited
+      const rest = domainCandidates.filter(candidate => candidate !== imported)
+      const guessed = await this.tryDomainCandidates(page, searchChain, companyName, cityName, rest, crawlOptions, registry)
+      return guessed?.contact ? guessed : { contact: null, formOnly: guessed?.formOnly ?? visited?.formOnly ?? null }
+    }
+
+    const { results } = await searchChain.search(`${companyName} ${cityName}`)
+    const matched = matchDomainCandidate(domainCandidates, results.map(result => result.url))
+    currentTrace()?.record({
+      type: 'check',
+      name: 'ドメイン候補照合',
+      url: matched?.url,
+      passed: Boolean(matched),
+      detail: { candidates: domainCandidates.map(candidate => candidate.domain), matched: matched?.candidate }
+    })
+    if (!matched) return null
+
+    console.log(`🌐 ドメイン候補一致: ${matched.candidate.domain} (${matched.candidate.source})`)
+    return this.visitCandidateSite(page, matched.url, companyName, crawlOptions, registry)
+  }
+
+  /**
+   * 候補サイトの巡回と連絡先抽出（別法人のサイト・アクセス失敗は null）
+   * 推測したドメインは名前解決・接続の失敗が多いため、失敗しても通常の公式サイト検索へ進む
+   */
+  private async visitCandidateSite(
+    page: Page,
+    url: string,
+    companyName: string,
+    crawlOptions: CrawlOptions,
+    registry?: RegistryIdentity
+  ): Promise<{ contact: ContactCandidate | null, formOnly: ContactCandidate | null } | null> {
+    try {
+      await page.goto(url, { timeout: PAGE_LOAD_TIMEOUT_MS, waitUntil: 'domcontentloaded' })
+      const sitePages = await crawlSite(page, page.url(), { ...crawlOptions, timeoutMs: PAGE_LOAD_TIMEOUT_MS })
+      const ownership = registry ? this.checkSiteOwnership(sitePages, registry) : undefined
+      if (ownership?.verdict === 'rejected') return null
+      return await this.contactFromSite(sitePages, companyName, ownership)
+    } catch (error) {
+      rethrowIfHalted(error)
+      console.log(`候補サイトアクセス失敗: ${url} (${error instanceof Error ? error.message : error})`)
+      return null
+    }
+  }
+
+  /**
+   * 巡回したページから連絡先を抽出（電話・メールがなければフォームのみの候補を返す）
+   */
+  private async contactFromSite(
+    sitePages: CrawledPage[],
+    companyName: string,
+    ownership?: SiteOwnership
+  ): Promise<{ contact: ContactCandidate | null, formOnly: ContactCandidate | null }> {
+    const contactForm = this.findContactForm(sitePages)
+    const formChannel = contactForm ? { contactFormUrl: contactForm.url, contactForm } : {}
+    // 巡回した全ページの電話・メール・フォームを一覧として残す
+    const sitePoints = mergeContactPoints(
+      sitePages.flatMap(sitePage => contactPointsFromPage(sitePage.html, sitePage.url)),
+      contactForm ? [contactPointFromForm(contactForm)] : []
+    )
+    const bonus = ownership ? ownershipConfidenceBonus(ownership) : 0
+
+    for (const sitePage of sitePages) {
+      const contactInfo = await this.extractCompanyInfo(sitePage.html, companyName, sitePage.url)
+      if (contactInfo && (contactInfo.phoneNumber || contactInfo.email)) {
+        console.log(`✅ 公式サイト連絡先取得成功: ${sitePage.anchorText || sitePage.title} (${sitePage.url})`)
+        return {
+          contact: {
+            ...contactInfo,
+            ...formChannel,
+            website: contactInfo.website || new URL(sitePage.url).origin,
+            confidence: Math.min(100, (contactInfo.confidence ?? 0) + bonus),
+            contactPoints: mergeContactPoints(sitePoints, contactInfo.contactPoints ?? []),
+            siteOwnership: ownership
+          },
+          formOnly: null
+        }
+      }
+    }
+
+    // 電話・メールの掲載がなくても問い合わせフォームがあれば連絡手段として候補に残す
+    if (!contactForm || sitePages.length === 0) return { contact: null, formOnly: null }
+    const partial = extractContactDeterministic(sitePages[0].html)
+    return {
+      contact: null,
+      formOnly: {
+        ...partial.fields,
+        ...formChannel,
+        website: partial.fields.website || new URL(sitePages[0].url).origin,
+        confidence: Math.min(100, deterministicConfidence(partial) + bonus),
+        extractionMethods: partial.methods,
+        contactPoints: sitePoints,
+        siteOwnership: ownership
+      }
+    }
+  }
+
+  /**
+   * 公式サイト候補と登記情報の照合（別法人と判定したサイトからは連絡先を取らない）
+   */
+  private checkSiteOwnership(sitePages: CrawledPage[], registry: RegistryIdentity): SiteOwnership {
+    const ownership = verifySiteOwnership(sitePages, registry)
+    currentTrace()?.record({
+      type: 'check',
+      name: '公式サイト所有確認',
+      url: sitePages[0]?.url,
+      passed: ownership.verdict !== 'rejected',
+      detail: { verdict: ownership.verdict, score: ownership.score, signals: ownership.signals }
+    })
+    const summary = ownership.signals.map(signal => `${signal.signal}=${signal.result}`).join(', ') || '根拠なし'
+    if (ownership.verdict === 'rejected') {
+      console.log(`⛔ 別法人のサイトとして除外: ${sitePages[0]?.url} (${summary})`)
+    } else {
+      console.log(`🪪 公式サイト所有確認: ${ownership.verdict} (${ownership.score}点: ${summary})`)
+    }
+    return ownership
+  }
+
+  /**
+   * 巡回したページから問い合わせフォームを検出（自社フォーム優先）
+   */
+  private findContactForm(sitePages: CrawledPage[]): ContactForm | null {
+    const contactForm = selectContactForm(sitePages.map(sitePage => detectContactForm(sitePage.html, sitePage.url, sitePage.title)))
+    currentTrace()?.record({
+      type: 'check',
+      name: '問い合わせフォーム検出',
+      passed: Boolean(contactForm),
+      detail: contactForm
+        ? { url: contactForm.url, provider: contactForm.provider, requiredFields: contactForm.requiredFields, captcha: contactForm.captcha }
+        : { pages: sitePages.length }
+    })
+    if (contactForm) {
+      console.log(`📝 問い合わせフォーム検出: ${contactForm.url}${contactForm.provider ? ` (${contactForm.provider})` : ''}${contactForm.captcha ? ` CAPTCHA=${contactForm.captcha}` : ''}`)
+    }
+    return contactForm
+  }
+
+  /**
+   * 取得住所と登記住所の照合（都道府県・市区町村が異なる場合は同名別会社として除外）
+   */
+  private matchRegistryAddress(contactInfo: ContactCandidate, registryAddress: NormalizedAddress): boolean {
+    if (!contactInfo.address) return true
+
+    const normalizedAddress = normalizeAddress(contactInfo.address)
+    const addressMatch = compareAddresses(normalizedAddress, registryAddress)
+    contactInfo.normalizedAddress = normalizedAddress
+    contactInfo.addressMatch = addressMatch
+
+    if (addressMatch.level === 'none') {
+      console.log(`❌ 住所不一致: ${normalizedAddress.normalized} ≠ ${registryAddress.normalized}`)
+      return false
+    }
+    console.log(`🏠 住所照合: ${addressMatch.level} (${addressMatch.score})`)
+    return true
+  }
+
+  /**
+   * 企業情報抽出（ページ内の連絡先一覧を取得元URL付きで添える）
+   */
+  private async extractCompanyInfo(htmlContent: string, companyName: string, sourceUrl: string): Promise<ContactCandidate | null> {
+    const phones = extractClassifiedPhones(htmlContent)
+    const contact = await this.extractContactFields(htmlContent, companyName, phones)
+    if (contact) {
+      contact.contactPoints = mergeContactPoints(
+        contactPointsFromPage(htmlContent, sourceUrl, phones),
+        this.candidateContactPoints(contact, sourceUrl)
+      )
+    }
+    return contact
+  }
+
+  /**
+   * 採用した項目の連絡先（構造化データ・Gemini由来など本文走査で拾えないものを含む）
    */
-  private async extractCompanyInfo(htmlContent: string, companyName: string): Promise<any> {
+  private candidateContactPoints(contact: ContactCandidate, sourceUrl: string): ContactPoint[] {
+    const methods = contact.extractionMethods ?? {}
+    const points: ContactPoint[] = []
+    if (contact.phoneNumber) {
+      points.push(createContactPoint({ type: 'phone', value: contact.phoneNumber, phoneType: contact.phoneType, sourceUrl, method: methods.phoneNumber ?? 'llm' }))
+    }
+    if (contact.email) {
+      points.push(createContactPoint({ type: 'email', value: contact.email, sourceUrl, method: methods.email ?? 'llm' }))
+    }
+    if (contact.website) {
+      points.push(createContactPoint({ type: 'website', value: contact.website, sourceUrl, method: methods.website ?? 'llm' }))
+    }
+    return points
+  }
+
+  /**
+   * 企業情報抽出（tel/mailto・JSON-LD・microdata・会社概要の表を先に読み、不足時のみGemini）
+   */
+  private async extractContactFields(htmlContent: string, companyName: string, phones: ClassifiedPhone[]): Promise<ContactCandidate | null> {
+    const deterministic = extractContactDeterministic(htmlContent)
+    this.selectDeterministicPhone(deterministic, phones)
+    const sufficient = isContactSufficient(deterministic)
+    currentTrace()?.record({
+      type: 'check',
+      name: 'ルールベース抽出',
+      passed: sufficient,
+      detail: { fields: deterministic.fields, methods: deterministic.methods }
+    })
+
+    if (sufficient) {
+      console.log(`🧩 ルールベース抽出: ${Object.entries(deterministic.methods).map(([field, method]) => `${field}=${method}`).join(', ')}`)
+      return this.withPhoneType({
+        ...deterministic.fields,
+        confidence: deterministicConfidence(deterministic),
+        extractionMethods: deterministic.methods
+      }, phones)
+    }
+
     const cleanedHTML = htmlContent
       .replace(/<script[\s\S]*?<\/script>/gi, '')
       .replace(/<style[\s\S]*?<\/style>/gi, '')
@@ -632,24 +1278,87 @@ ${cleanedHTML}
 
     try {
       // 新SDK + 構造化出力使用
-      const response = await this.model.generateContent(prompt)
-      
-      const responseText = response.response.text()
+      const responseText = await this.generateText('企業情報抽出', prompt)
       
       // JSON抽出 (既存APIルートと同じパターン)
       const jsonMatch = responseText.match(/\{[\s\S]*\}/)
       if (!jsonMatch) {
         console.log('❌ JSON形式が見つかりません')
-        return null
+        return this.partialContact(deterministic, phones)
       }
       
-      return JSON.parse(jsonMatch[0])
+      const companyInfo = JSON.parse(jsonMatch[0])
+      currentTrace()?.verdict('企業情報抽出', { ...companyInfo })
+
+      // ルールベースで取得できた項目を優先し、不足分のみGeminiの結果で補う
+      const merged: ContactCandidate = { ...companyInfo, ...deterministic.fields }
+      const extractionMethods = { ...deterministic.methods }
+      for (const field of CONTACT_FIELDS) {
+        if (!extractionMethods[field] && companyInfo[field]) extractionMethods[field] = 'llm'
+      }
+      return this.withPhoneType({ ...merged, extractionMethods }, phones)
       
     } catch (error) {
+      rethrowIfHalted(error)
       console.error('❌ Gemini解析エラー:', error)
     }
 
-    return null
+    return this.partialContact(deterministic, phones)
+  }
+
+  /**
+   * Gemini抽出に失敗した場合のルールベース抽出結果（連絡手段があれば採用候補）
+   */
+  private partialContact(deterministic: DeterministicContact, phones: ClassifiedPhone[]): ContactCandidate | null {
+    if (!deterministic.fields.phoneNumber && !deterministic.fields.email) return null
+    return this.withPhoneType({
+      ...deterministic.fields,
+      confidence: deterministicConfidence(deterministic),
+      extractionMethods: deterministic.methods
+    }, phones)
+  }
+
+  /**
+   * ルールベース抽出の電話番号を架電先に差し替え（FAX・採用窓口より代表番号を優先）
+   */
+  private selectDeterministicPhone(deterministic: DeterministicContact, phones: ClassifiedPhone[]): void {
+    const current = deterministic.fields.phoneNumber
+    const selected = selectCallablePhone(phones)
+    if (current && selected && findClassifiedPhone(current, phones).type === selected.type) return
+
+    if (selected) {
+      deterministic.fields.phoneNumber = selected.number
+      deterministic.methods.phoneNumber = selected.method ?? 'text-pattern'
+    } else if (current && !findClassifiedPhone(current, phones).callable) {
+      delete deterministic.fields.phoneNumber
+      delete deterministic.methods.phoneNumber
+    }
+  }
+
+  /**
+   * 連絡先候補に電話番号の種別を付与（FAXは電話番号から外す）
+   */
+  private withPhoneType(contact: ContactCandidate, phones: ClassifiedPhone[]): ContactCandidate {
+    if (phones.length > 0) contact.phoneNumbers = phones
+    if (!contact.phoneNumber) return contact
+
+    const classified = findClassifiedPhone(contact.phoneNumber, phones)
+    if (!classified.callable) {
+      console.log(`📠 FAX番号を除外: ${contact.phoneNumber}`)
+      const selected = selectCallablePhone(phones)
+      if (!selected) {
+        delete contact.phoneNumber
+        delete contact.extractionMethods?.phoneNumber
+        return contact
+      }
+      contact.phoneNumber = selected.number
+      contact.phoneType = selected.type
+      // 抽出方法は差し替えた番号のもの（FAX番号の抽出方法を残さない）
+      contact.extractionMethods = { ...contact.extractionMethods, phoneNumber: selected.method ?? 'text-pattern' }
+      return contact
+    }
+    contact.phoneType = classified.type
+    return contact
   }
 
   /**
@@ -666,9 +1375,7 @@ ${cleanedHTML}
 - プライバシーポリシー、利用規約、会社概要などの公式ページ
 `
       
-      const response = await this.model.generateContent(prompt)
-      
-      const responseText = response.response.text()
+      const responseText = await this.generateText('公式サイト判定', prompt)
       
       // JSON抽出 (既存APIルートと同じパターン)
       const jsonMatch = responseText.match(/\{[\s\S]*\}/)
@@ -678,9 +1385,11 @@ ${cleanedHTML}
       }
       
       const result = JSON.parse(jsonMatch[0])
+      currentTrace()?.verdict('公式サイト判定', result.isOfficial)
       return result.isOfficial
       
     } catch (error) {
+      rethrowIfHalted(error)
       console.error('公式サイト判定エラー:', error)
       return false
     }
@@ -703,9 +1412,7 @@ ${cleanedHTML}
 最適化クエリ:
 `
       
-      const response = await this.model.generateContent(prompt)
-      
-      const responseText = response.response.text()
+      const responseText = await this.generateText('検索クエリ最適化', prompt)
       
       // JSON抽出 (既存APIルートと同じパターン)
       const jsonMatch = responseText.match(/\{[\s\S]*\}/)
@@ -715,9 +1422,11 @@ ${cleanedHTML}
       }
       
       const result = JSON.parse(jsonMatch[0])
+      currentTrace()?.verdict('検索クエリ最適化', result.optimizedQuery || originalQuery)
       return result.optimizedQuery || originalQuery
       
     } catch (error) {
+      rethrowIfHalted(error)
       console.error('クエリ最適化エラー:', error)
       return originalQuery
     }
@@ -747,9 +1456,7 @@ ${cleanedResults}
 - 明らかに同じ企業の情報か
 `
       
-      const response = await this.model.generateContent(prompt)
-      
-      const responseText = response.response.text()
+      const responseText = await this.generateText('企業名一致検証', prompt)
       
       // JSON抽出 (既存APIルートと同じパターン)
       const jsonMatch = responseText.match(/\{[\s\S]*\}/)
@@ -759,14 +1466,61 @@ ${cleanedResults}
       }
       
       const result = JSON.parse(jsonMatch[0])
+      currentTrace()?.verdict('企業名一致検証', result.isMatch)
       return result.isMatch
       
     } catch (error) {
+      rethrowIfHalted(error)
       console.error('企業名一致検証エラー:', error)
       return false
     }
   }
 
+  /**
+   * Gemini呼び出し（プロンプト・応答・所要時間をトレースに記録）
+   */
+  private async generateText(purpose: string, prompt: string, model: GenerativeModel = this.model): Promise<string> {
+    const startedAt = Date.now()
+    try {
+      // 上限時間を過ぎて中断された企業ではリミッターの待機後も含めて呼び出さない
+      throwIfCancelled()
+      // 再実行時は記録した応答テキストを返す（Gemini・レート制限・予算は通らない）
+      const responseText = await replayable(`llm:${purpose}`, `${model.model}\n${prompt}`, async () => {
+        const response = await rateLimiterFor('gemini').schedule(() => {
+          throwIfCancelled()
+          return budgetManager().charge('gemini', () => model.generateContent(prompt), result => geminiCost(result.response.usageMetadata))
+        })
+        return response.response.text()
+      })
+      currentTrace()?.record({
+        type: 'ai',
+        purpose,
+        model: model.model,
+        prompt,
+        response: responseText,
+        durationMs: Date.now() - startedAt
+      })
+      return responseText
+    } catch (error) {
+      currentTrace()?.record({
+        type: 'ai',
+        purpose,
+        model: model.model,
+        prompt,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt
+      })
+      throw error
+    }
+  }
+
+  /**
+   * 検索結果のページへ遷移（どのプロバイダの結果でもURLで直接開く）
+   */
+  private async visitSearchResult(page: Page, result: WebSearchResult): Promise<void> {
+    await page.goto(result.url, { timeout: PAGE_LOAD_TIMEOUT_MS, waitUntil: 'domcontentloaded' })
+  }
+
   /**
    * 結果作成ヘルパー
    */
@@ -793,59 +1547,290 @@ ${cleanedResults}
   async processBatch(
     csvPath: string, 
     maxRecords: number = 10, 
-    startIndex: number = 0
+    startIndex: number = 0,
+    options: BatchOptions = {}
   ): Promise<ProcessingResult[]> {
-    console.log(`📋 CSV一括処理開始: 最大${maxRecords}件（${startIndex}行目から）`)
+    console.log(`📋 CSV一括処理開始: 最大${maxRecords}件（${startIndex}${options.filter ? '件目（フィルタ一致）' : '行目'}から）`)
     
-    // CSV読み込み
-    const records = await this.loadCorporateCSV(csvPath)
-    const targetRecords = records.slice(startIndex, startIndex + maxRecords)
+    const readOptions = options.profile ? profileReadOptions(options.profile) : undefined
+    const { records: targetRecords, rowIndexes, cursor: filterCursor } = await this.selectRecords(
+      csvPath, maxRecords, startIndex, options.filter, readOptions, options.filterCursor
+    )
     
     console.log(`🎯 処理対象: ${targetRecords.length}件`)
 
-    // ブラウザ初期化
-    await this.initBrowser()
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY)
+    const timeoutMs = options.companyTimeoutMs ?? DEFAULT_COMPANY_TIMEOUT_MS
+    const batchStart = Date.now()
+    const cacheBefore = searchCache().getStats()
 
-    const results: ProcessingResult[] = []
-
-    // 1社ずつ処理
-    for (let i = 0; i < targetRecords.length; i++) {
-      const record = targetRecords[i]
-      console.log(`\n📊 進捗: ${i + 1}/${targetRecords.length} (全体: ${startIndex + i + 1}行目)`)
-      
-      const result = await this.processCompany(record)
-      results.push(result)
+    // ブラウザ初期化（各企業はこのブラウザ上の独立したコンテキストで処理）
+    await this.initBrowser()
 
-      // レート制限対応
-      if (i < targetRecords.length - 1) {
-        console.log('⏳ 待機中... (3秒)')
-        await new Promise(resolve => setTimeout(resolve, 3000))
-      }
+    const validator = new CorporateRecordValidator({
+      quarantinePath: CorporateRecordValidator.defaultQuarantinePath(csvPath),
+      seenNumbersPath: options.seenNumbersPath,
+      ...(options.profile ? profileValidatorOptions(options.profile) : {})
+    })
+    await validator.load()
+    // 前回以降に商号・所在地が変わった法人は連絡先を取り直す（台帳の失敗は処理を止めない）
+    await this.successorResolver.syncMasterChanges().catch(error => {
+      console.warn('⚠️ 法人マスタ変更の反映エラー (処理は続行):', error instanceof Error ? error.message : error)
+    })
+    const inFlight = new Set<string>()
+    const attempted = new Set<number>()
+    let completed = 0
+    let budgetPaused: string | undefined
+
+    // 最大 concurrency 社を並列処理（検索・AI呼び出しの間隔はプロバイダ共有のリミッターで制御）
+    console.log(`⚙️ 並列数: ${concurrency}, 1社あたり上限: ${Math.round(timeoutMs / 1000)}秒`)
+    let results: ProcessingResult[]
+    try {
+      results = await runWorkerPool(targetRecords, concurrency, async (record, i, workerId) => {
+        // 隔離ファイルの行番号はフィルタ一致件数ではなくCSVのデータ行（1始まり）
+        const rowNumber = rowIndexes[i] + 1
+        const { result, attempted: ran, paused } = await this.processRecord(record, rowNumber, options, validator, inFlight, timeoutMs)
+        if (ran) attempted.add(i)
+        budgetPaused ??= paused
+        console.log(`\n📊 進捗: ${++completed}/${targetRecords.length} (全体: ${rowNumber}行目, ワーカー${workerId + 1})`)
+        return result
+      })
+    } finally {
+      await validator.flush()
+
+      // ブラウザクリーンアップ
+      await this.cleanup()
     }
 
-    // ブラウザクリーンアップ
-    await this.browser.close()
-    console.log('🔐 ブラウザ終了')
-
     // 結果サマリー
-    const successCount = results.filter(r => r.processed && r.scrapingResult).length
+    const attemptedResults = results.filter((_, i) => attempted.has(i))
+    const succeeded = attemptedResults.filter(r => r.processed && r.scrapingResult).length
+    const timedOut = attemptedResults.filter(r => r.timedOut).length
+    const errors = attemptedResults.filter(r => !r.timedOut && (r.trace ? r.trace.outcome === 'error' : !!r.error)).length
+    const elapsedMs = Date.now() - batchStart
+    const cacheAfter = searchCache().getStats()
+    this.batchSummary = {
+      total: results.length,
+      attempted: attemptedResults.length,
+      succeeded,
+      failed: attemptedResults.length - succeeded - timedOut - errors,
+      errors,
+      timedOut,
+      skipped: results.length - attemptedResults.length,
+      concurrency,
+      elapsedMs,
+      averageCompanyMs: attemptedResults.length > 0
+        ? Math.round(attemptedResults.reduce((sum, r) => sum + r.executionTime, 0) / attemptedResults.length)
+        : 0,
+      throughputPerHour: elapsedMs > 0 ? Math.round(attemptedResults.length / (elapsedMs / 3600000) * 10) / 10 : 0,
+      searchCache: {
+        hits: cacheAfter.hits - cacheBefore.hits,
+        misses: cacheAfter.misses - cacheBefore.misses
+      },
+      budgetPaused,
+      filterCursor
+    }
     const highQualityCount = results.filter(r => 
       r.scrapingResult && r.scrapingResult.confidence >= 70
     ).length
 
     console.log('\n📊 処理完了サマリー:')
-    console.log(`✅ 成功: ${successCount}/${targetRecords.length}件`)
+    console.log(`✅ 成功: ${succeeded}/${targetRecords.length}件`)
+    console.log(`⚡ 処理速度: ${this.batchSummary.throughputPerHour}社/時 (並列${concurrency}, 平均${Math.round(this.batchSummary.averageCompanyMs / 1000)}秒/社)`)
+    if (timedOut > 0 || errors > 0) {
+      console.log(`⏱️ タイムアウト: ${timedOut}件, ❌ エラー: ${errors}件`)
+    }
+    console.log(`🗄️ 検索キャッシュ: ヒット${this.batchSummary.searchCache.hits}件 / ミス${this.batchSummary.searchCache.misses}件`)
+    if (budgetPaused) {
+      console.log(`⏸️ 予算上限により途中で停止: ${budgetPaused}`)
+    }
+    const validation = validator.getSummary()
+    if (validation.invalid > 0) {
+      console.log(`🚫 不正データ: ${validation.invalid}件 (重複${validation.duplicates}件) → ${validation.quarantinePath}`)
+    }
     console.log(`🎯 高品質: ${highQualityCount}件 (信頼度70%以上)`)
 
     return results
   }
 
+  /**
+   * 直近の一括処理の集計（スループット・タイムアウト・エラー件数）
+   */
+  getBatchSummary(): BatchSummary | null {
+    return this.batchSummary
+  }
+
+  /**
+   * 1行分の処理（検証・承継先付け替え・スキップ判定の後に企業処理）
+   */
+  private async processRecord(
+    record: CorporateRecord,
+    rowNumber: number,
+    options: BatchOptions,
+    validator: CorporateRecordValidator,
+    inFlight: Set<string>,
+    timeoutMs: number
+  ): Promise<{ result: ProcessingResult, attempted: boolean, paused?: string }> {
+    // 承継先・台帳・予算の読み書きの失敗もその企業のエラーとして扱い、他のワーカーの処理は続ける
+    try {
+      // 法人番号・必須項目が不正な行は隔離してスクレイピングしない
+      const validationErrors = validator.check(record, rowNumber)
+      if (validationErrors) {
+        console.log(`🚫 不正データ隔離: ${validationErrors.join(' / ')} [${record.corporateNumber || '-'}]`)
+        return {
+          result: {
+            ...this.createResult(record, null, false, 0, `不正データ: ${validationErrors.join(' / ')}`),
+            validationErrors
+          },
+          attempted: false
+        }
+      }
+
+      // 閉鎖法人は承継先チェーンをたどって存続法人へ付け替える
+      const { record: target, resolution } = await this.successorResolver.resolve(record)
+      const successorResolution = resolution ?? undefined
+      if (resolution && resolution.status !== 'resolved' && !options.filter?.includeClosed) {
+        const reason = `対象外: 閉鎖法人（${SUCCESSOR_STATUS_LABELS[resolution.status]}）`
+        console.log(`⏭️ ${reason}: ${record.corporateName}`)
+        return { result: { ...this.createResult(record, null, false, 0, reason), successorResolution }, attempted: false }
+      }
+
+      // 複数の閉鎖法人が同じ承継先へ付け替わった場合などに同時処理しない
+      // 確認と登録の間に await を挟まない（エンリッチ済み判定の待機中に別のワーカーが通過しないように）
+      if (target.corporateNumber && inFlight.has(target.corporateNumber)) {
+        console.log(`⏭️ 同一法人を処理中: ${target.corporateName} [${target.corporateNumber}]`)
+        return { result: { ...this.createResult(target, null, false, 0, '対象外: 同一法人を処理中'), successorResolution }, attempted: false }
+      }
+      if (target.corporateNumber) inFlight.add(target.corporateNumber)
+
+      try {
+        // 承継元・承継先のどちらかで既にエンリッチ済みなら二重に営業リスト化しない
+        // 記録・再実行は同じ企業を繰り返し処理するためエンリッチ済みでも対象にする
+        if (!options.reprocessEnriched && !options.replay && (
+          await this.successorResolver.isEnriched(target.corporateNumber) ||
+          await this.successorResolver.isEnriched(record.corporateNumber)
+        )) {
+          console.log(`⏭️ エンリッチ済み: ${target.corporateName} [${target.corporateNumber}]`)
+          return { result: { ...this.createResult(target, null, false, 0, '対象外: エンリッチ済み'), successorResolution }, attempted: false }
+        }
+
+        // 閉鎖法人・検索対象除外は処理せずスキップ結果として返す（位置指定時）
+        const rejection = filterRejectionReason(target, options.filter)
+        if (rejection) {
+          console.log(`⏭️ ${rejection}: ${target.corporateName}`)
+          return { result: { ...this.createResult(target, null, false, 0, rejection), successorResolution }, attempted: false }
+        }
+
+        // 費用の上限に達したら残りは処理しない（再実行は通信しないため対象外）
+        if (options.replay?.mode !== 'replay') {
+          const paused = await budgetManager().pauseReason(options.campaign?.id) ?? undefined
+          if (paused) {
+            console.log(`⏸️ 予算上限で一時停止: ${target.corporateName} (${paused})`)
+            return { result: { ...this.createResult(target, null, false, 0, `一時停止: ${paused}`), successorResolution }, attempted: false, paused }
+          }
+        }
+
+        const result = await this.processCompany(target, options.campaign, timeoutMs, options.replay)
+        if (successorResolution) result.successorResolution = successorResolution
+        if (result.budgetPaused) {
+          return { result, attempted: false, paused: result.budgetPaused }
+        }
+        if (result.processed && result.scrapingResult && options.replay?.mode !== 'replay') {
+          // 取得済みの連絡先は失わないよう、台帳の書き込み失敗は警告のみ
+          await this.successorResolver.markEnriched(target, resolution).catch(error => {
+            console.warn('⚠️ エンリッチ済み台帳の保存エラー (処理は続行):', error instanceof Error ? error.message : error)
+          })
+        }
+        return { result, attempted: true }
+      } finally {
+        if (target.corporateNumber) inFlight.delete(target.corporateNumber)
+      }
+    } catch (error) {
+      if (isBudgetPause(error)) {
+        console.log(`⏸️ 予算上限で一時停止: ${record.corporateName || record.法人名 || '-'} (${error.message})`)
+        return { result: this.createResult(record, null, false, 0, `一時停止: ${error.message}`), attempted: false, paused: error.message }
+      }
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`❌ 行の処理エラー: ${message} [${record.corporateName || record.法人名 || '-'}]`)
+      return { result: this.createResult(record, null, false, 0, message), attempted: true }
+    }
+  }
+
+  /**
+   * 処理対象の抽出（フィルタなし: 行インデックス / フィルタあり: 一致件数基準でストリーム走査）
+   * フィルタ指定時は cursor の行オフセットから走査を再開し、終了位置を返す
+   * rowIndexes は各レコードのCSVデータ行（0始まり、フィルタ指定時も一致件数ではない）
+   */
+  async selectRecords(
+    csvPath: string,
+    maxRecords: number,
+    startIndex: number,
+    filter?: CompanyFilter,
+    readOptions?: CsvReadOptions,
+    cursor?: FilterCursor
+  ): Promise<{ records: CorporateRecord[], rowIndexes: number[], cursor?: FilterCursor }> {
+    if (!filter) {
+      // インデックス経由で対象行のみ読み込み（全件パースしない）
+      const index = await CorporateCsvIndex.open(csvPath, readOptions)
+      const records = await index.getRange(startIndex, maxRecords)
+      return { records, rowIndexes: records.map((_, i) => startIndex + i) }
+    }
+
+    const selected: CorporateRecord[] = []
+    const rowIndexes: number[] = []
+    let matched = 0
+    let rowIndex = 0
+    let start = 0
+    let source: CsvSourceInfo
+    if (cursor && cursor.matchedIndex <= startIndex) {
+      // 前回の終了行の先頭から読む（CSVが差し替わって行数が減っていれば先頭から）
+      const index = await CorporateCsvIndex.open(csvPath, readOptions)
+      source = index.source
+      if (cursor.rowIndex <= index.rowCount) {
+        matched = cursor.matchedIndex
+        rowIndex = cursor.rowIndex
+        start = await index.offsetOf(rowIndex)
+      }
+    } else {
+      source = await inspectCorporateCSV(csvPath, readOptions)
+    }
+
+    for await (const record of iterateCorporateCSV(csvPath, source, start)) {
+      rowIndex++
+      if (!matchesFilter(record, filter)) continue
+      if (matched++ < startIndex) continue
+
+      selected.push(record)
+      rowIndexes.push(rowIndex - 1)
+      if (selected.length >= maxRecords) break
+    }
+    return { records: selected, rowIndexes, cursor: { matchedIndex: matched, rowIndex } }
+  }
+
+  /**
+   * 処理対象件数のカウント（フィルタなしは行インデックスの行数）
+   */
+  async countTargetRecords(csvPath: string, filter?: CompanyFilter, readOptions?: CsvReadOptions): Promise<number> {
+    if (!filter) {
+      const index = await CorporateCsvIndex.open(csvPath, readOptions)
+      return index.rowCount
+    }
+
+    let count = 0
+    const source = await inspectCorporateCSV(csvPath, readOptions)
+    for await (const record of iterateCorporateCSV(csvPath, source)) {
+      if (matchesFilter(record, filter)) count++
+    }
+    return count
+  }
+
   /**
    * ブラウザクリーンアップ
    */
   async cleanup() {
     if (this.browser) {
       await this.browser.close()
+      this.browser = null
       console.log('🔐 ブラウザ終了完了')
     }
   }
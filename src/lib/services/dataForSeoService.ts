@@ -3,6 +3,12 @@
  * Handles SERP search, OnPage analysis, and Jobs API
  */
 
+import { budgetManager } from './budgetManager';
+import { DomainCandidate, generateDomainCandidates, isCandidateDomain } from './domainCandidates';
+import { rateLimiterFor } from './rateLimiter';
+import { replayable } from './replayRecorder';
+import { searchCache } from './searchCache';
+
 export interface JobResult {
   title: string;
   employer_name: string;
@@ -37,6 +43,14 @@ export interface ContactInfo {
   website: string;
 }
 
+// APIエラー（HTTPステータス、またはタスクのステータスコード: 40200・40210 = 残高不足、40202 = レート超過）
+export class DataForSeoApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'DataForSeoApiError';
+  }
+}
+
 export class DataForSeoService {
   private baseUrl = 'https://api.dataforseo.com/v3';
   private auth: string;
@@ -55,8 +69,8 @@ export class DataForSeoService {
   // Jobs API - ランダム求人データ取得
   async getJobsData(): Promise<JobResult[]> {
     try {
-      // 1. タスク作成
-      const taskResponse = await this.createJobsTask();
+      // 1. タスク作成（タスク単位で課金されるため予算に計上）
+      const taskResponse = await budgetManager().charge('dataforseo', () => this.createJobsTask(), task => task.cost);
       const taskId = taskResponse.tasks[0]?.id;
       
       if (!taskId) {
@@ -135,65 +149,92 @@ export class DataForSeoService {
     return await response.json();
   }
 
-  // SERP検索
+  // SERP検索（失敗時は空）
   async searchGoogle(keyword: string, depth: number = 10): Promise<SerpResult[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/serp/google/organic/live/advanced`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${this.auth}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify([{
-          keyword,
-          location_code: 2392,
-          language_code: 'ja',
-          device: 'desktop',
-          os: 'windows',
-          depth
-        }])
-      });
+      return await this.searchSerp(keyword, depth);
+    } catch (error) {
+      console.error(`SERP検索エラー [${keyword}]:`, error);
+      return [];
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`SERP search failed: ${response.statusText}`);
-      }
+  // SERP検索（失敗時は DataForSeoApiError）
+  async searchSerp(keyword: string, depth: number = 10): Promise<SerpResult[]> {
+    // 同じクエリは保存結果を使い、記録・再実行中は応答を記録経由で取得（実際の呼び出しのみレート制限・予算に計上）
+    return searchCache().getOrFetch('dataforseo', keyword, { depth }, () =>
+      replayable<SerpResult[]>('dataforseo', JSON.stringify({ keyword, depth }), () =>
+        rateLimiterFor('dataforseo').schedule(async () => {
+          const { results } = await budgetManager().charge('dataforseo', () => this.fetchSerp(keyword, depth), serp => serp.cost);
+          return results;
+        })
+      )
+    );
+  }
 
-      const data = await response.json();
-      const items = data.tasks[0]?.result[0]?.items || [];
-      
-      return items.map((item: any) => ({
+  // 応答の cost はタスクの実際の課金額（USD）
+  private async fetchSerp(keyword: string, depth: number): Promise<{ results: SerpResult[], cost?: number }> {
+    const response = await fetch(`${this.baseUrl}/serp/google/organic/live/advanced`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${this.auth}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify([{
+        keyword,
+        location_code: 2392,
+        language_code: 'ja',
+        device: 'desktop',
+        os: 'windows',
+        depth
+      }])
+    });
+
+    if (!response.ok) {
+      throw new DataForSeoApiError(response.status, `SERP search failed: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    // 残高不足・レート超過等はHTTP 200のままタスクのステータスコードで返る
+    const task = data.tasks?.[0];
+    if (task && task.status_code !== 20000) {
+      throw new DataForSeoApiError(task.status_code, `SERP search failed: ${task.status_message}`);
+    }
+    const items = task?.result?.[0]?.items || [];
+    
+    return {
+      results: items.map((item: any) => ({
         title: item.title || '',
         url: item.url || '',
         description: item.description || '',
         domain: item.domain || ''
-      }));
-
-    } catch (error) {
-      console.error(`SERP検索エラー [${keyword}]:`, error);
-      return [];
-    }
+      })),
+      cost: typeof data.cost === 'number' ? data.cost : undefined
+    };
   }
 
   // ページ内容解析
   async parseContent(url: string): Promise<PageContent> {
     try {
-      const response = await fetch(`${this.baseUrl}/on_page/content_parsing/live`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${this.auth}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify([{
-          url,
-          enable_javascript: false
-        }])
-      });
-
-      if (!response.ok) {
-        throw new Error(`Content parsing failed: ${response.statusText}`);
-      }
+      const data = await budgetManager().charge('dataforseo', async () => {
+        const response = await fetch(`${this.baseUrl}/on_page/content_parsing/live`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Basic ${this.auth}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify([{
+            url,
+            enable_javascript: false
+          }])
+        });
+
+        if (!response.ok) {
+          throw new Error(`Content parsing failed: ${response.statusText}`);
+        }
 
-      const data = await response.json();
+        return await response.json();
+      }, result => result.cost);
       const result = data.tasks[0]?.result[0];
       
       return {
@@ -232,8 +273,12 @@ export class DataForSeoService {
     };
   }
 
-  // 企業公式サイト候補検索
-  async searchCompanyWebsite(company: string, location: string): Promise<string[]> {
+  // 企業公式サイト候補検索（ドメイン候補はフリガナ・英語表記から生成したもの。未指定時は商号のみから）
+  async searchCompanyWebsite(
+    company: string,
+    location: string,
+    domainCandidates: DomainCandidate[] = generateDomainCandidates({ corporateName: company })
+  ): Promise<string[]> {
     const searchQueries = [
       `"${company}" ${location} 公式サイト`,
       `"${company}" ${location} 会社概要`,
@@ -247,7 +292,7 @@ export class DataForSeoService {
     for (const query of searchQueries) {
       try {
         const results = await this.searchGoogle(query, 10);
-        const urls = this.extractOfficialUrls(results, company);
+        const urls = this.extractOfficialUrls(results, company, domainCandidates);
         candidateUrls.push(...urls);
         
         if (candidateUrls.length >= 5) break;
@@ -258,11 +303,11 @@ export class DataForSeoService {
       }
     }
 
-    return this.prioritizeUrls([...new Set(candidateUrls)], company);
+    return this.prioritizeUrls([...new Set(candidateUrls)], domainCandidates);
   }
 
   // 公式サイトURL抽出
-  private extractOfficialUrls(serpResults: SerpResult[], company: string): string[] {
+  private extractOfficialUrls(serpResults: SerpResult[], company: string, domainCandidates: DomainCandidate[]): string[] {
     const companyKeywords = company.toLowerCase()
       .replace(/株式会社|有限会社|合同会社|合資会社|合名会社/g, '')
       .trim();
@@ -285,6 +330,7 @@ export class DataForSeoService {
 
         // 公式サイト判定
         return (
+          isCandidateDomain(url, domainCandidates) ||
           url.includes(companyKeywords) ||
           title.includes('公式') ||
           title.includes('会社概要') ||
@@ -299,14 +345,12 @@ export class DataForSeoService {
   }
 
   // URL優先順位付け
-  private prioritizeUrls(urls: string[], company: string): string[] {
-    const companyDomain = this.extractDomain(company);
-    
+  private prioritizeUrls(urls: string[], domainCandidates: DomainCandidate[]): string[] {
     return urls.sort((a, b) => {
       let scoreA = 0, scoreB = 0;
       
-      if (a.includes(companyDomain)) scoreA += 10;
-      if (b.includes(companyDomain)) scoreB += 10;
+      if (isCandidateDomain(a, domainCandidates)) scoreA += 10;
+      if (isCandidateDomain(b, domainCandidates)) scoreB += 10;
       
       if (a.includes('/company') || a.includes('/about')) scoreA += 5;
       if (b.includes('/company') || b.includes('/about')) scoreB += 5;
@@ -401,11 +445,4 @@ export class DataForSeoService {
     
     return '';
   }
-
-  private extractDomain(company: string): string {
-    return company.toLowerCase()
-      .replace(/株式会社|有限会社|合同会社/g, '')
-      .replace(/\s+/g, '')
-      .substring(0, 10);
-  }
 }
\ No newline at end of file
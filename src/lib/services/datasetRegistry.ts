@@ -0,0 +1,235 @@
+/**
+ * Dataset Registry
+ * 都道府県別の法人CSVデータセットと処理進捗の管理
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { CsvEncoding, CsvFormat } from './corporateCsvLoader'
+import { CorporateCsvIndex } from './corporateCsvIndex'
+import { CompanyFilter, sameFilter } from './companyFilter'
+import type { FilterCursor, ProcessingResult } from './csvCompanyProcessor'
+import { PREFECTURES } from './addressNormalizer'
+import { ImportProfileStore, profileReadOptions } from './importProfiles'
+
+// 国税庁ファイル名: 01_hokkaido_all_20250829.csv
+const NTA_FILE_PATTERN = /^(\d{2})_([a-z]+)_all_(\d{8})\.csv$/i
+
+export interface DatasetProgress {
+  currentIndex: number
+  processedCount: number
+  successCount: number
+  errorCount: number
+  lastProcessed?: string
+  lastProcessedAt?: string
+  completedAt?: string
+  filterCursor?: FilterCursor  // フィルタ指定時の再開位置（先頭から走査し直さない）
+}
+
+export interface CorporateDataset {
+  id: string
+  filePath: string           // プロジェクトルートからの相対パス
+  prefectureCode?: string
+  prefectureName?: string
+  encoding: CsvEncoding
+  format: CsvFormat
+  rowCount: number
+  sourceDate?: string        // ファイル名の公表日（YYYYMMDD）
+  importedAt: string
+  enabled: boolean
+  filter?: CompanyFilter     // データセット固有の対象フィルタ
+  profileId?: string         // リード一覧のインポートプロファイル
+  progress: DatasetProgress
+}
+
+export interface RegisterOptions {
+  id?: string
+  prefectureCode?: string
+  filter?: CompanyFilter | null  // 未指定: 登録済みのフィルタを引き継ぐ / null: フィルタを外す
+  profileId?: string
+}
+
+const DEFAULT_REGISTRY_FILE = path.join(process.cwd(), 'data', 'datasets.json')
+
+const emptyProgress = (): DatasetProgress => ({
+  currentIndex: 0,
+  processedCount: 0,
+  successCount: 0,
+  errorCount: 0
+})
+
+export class DatasetRegistry {
+  constructor(private readonly registryFile: string = DEFAULT_REGISTRY_FILE) {}
+
+  /**
+   * 登録済みデータセット一覧（都道府県コード順）
+   */
+  async list(): Promise<CorporateDataset[]> {
+    if (!fs.existsSync(this.registryFile)) return []
+
+    const datasets: CorporateDataset[] = JSON.parse(await fs.promises.readFile(this.registryFile, 'utf8'))
+    return datasets.sort((a, b) =>
+      (a.prefectureCode || '99').localeCompare(b.prefectureCode || '99') || a.id.localeCompare(b.id)
+    )
+  }
+
+  async get(id: string): Promise<CorporateDataset | null> {
+    const datasets = await this.list()
+    return datasets.find(d => d.id === id) ?? null
+  }
+
+  /**
+   * データセットの絶対パス
+   */
+  resolvePath(dataset: CorporateDataset): string {
+    return path.resolve(process.cwd(), dataset.filePath)
+  }
+
+  /**
+   * 検証済み法人番号の保存先（進捗と同じく呼び出しをまたいで重複を検出するため）
+   */
+  seenNumbersPath(dataset: Pick<CorporateDataset, 'id'>): string {
+    return path.join(path.dirname(this.registryFile), 'dataset-progress', `${dataset.id}.seen.csv`)
+  }
+
+  /**
+   * CSVを登録（同じIDで別ファイル・別のフィルタ・別のプロファイルの場合は進捗をリセット）
+   * フィルタ指定時の進捗はフィルタ一致件数基準のため、フィルタが変われば引き継げない
+   */
+  async register(filePath: string, options: RegisterOptions = {}): Promise<CorporateDataset> {
+    const profile = options.profileId ? await new ImportProfileStore().get(options.profileId) : null
+    if (options.profileId && !profile) {
+      throw new Error(`Import profile not found: ${options.profileId}`)
+    }
+
+    const index = await CorporateCsvIndex.open(filePath, profile ? profileReadOptions(profile) : undefined)
+    const fileName = path.basename(filePath)
+    const ntaMatch = fileName.match(NTA_FILE_PATTERN)
+
+    const firstRecord = await index.getRecord(0)
+    const prefectureCode = options.prefectureCode || ntaMatch?.[1] || firstRecord?.prefectureCode
+    const id = options.id || (ntaMatch ? `${ntaMatch[1]}_${ntaMatch[2].toLowerCase()}` : path.parse(fileName).name)
+    const relativePath = path.relative(process.cwd(), path.resolve(filePath))
+
+    const datasets = await this.list()
+    const existing = datasets.find(d => d.id === id)
+    const filter = options.filter === null ? undefined : options.filter ?? existing?.filter
+    const sameTarget = existing?.filePath === relativePath &&
+      existing.rowCount === index.rowCount &&
+      sameFilter(filter, existing.filter) &&
+      existing.profileId === profile?.id
+
+    const dataset: CorporateDataset = {
+      id,
+      filePath: relativePath,
+      prefectureCode,
+      prefectureName: prefectureCode ? PREFECTURES[prefectureCode] : firstRecord?.prefectureName,
+      encoding: index.source.encoding,
+      format: index.source.format,
+      rowCount: index.rowCount,
+      sourceDate: ntaMatch?.[3],
+      importedAt: new Date().toISOString(),
+      enabled: existing?.enabled ?? true,
+      filter,
+      profileId: profile?.id,
+      progress: sameTarget && existing ? existing.progress : emptyProgress()
+    }
+
+    await this.saveAll([...datasets.filter(d => d.id !== id), dataset])
+    if (!sameTarget) await this.clearSeenNumbers(id)
+    console.log(`🗂️ データセット登録: ${id} (${dataset.prefectureName || '都道府県不明'}, ${dataset.rowCount}行)`)
+    return dataset
+  }
+
+  /**
+   * ディレクトリ内の国税庁CSV（NN_xxx_all_YYYYMMDD.csv）を一括登録
+   */
+  async scanDirectory(directory: string): Promise<CorporateDataset[]> {
+    if (!fs.existsSync(directory)) return []
+
+    const files = (await fs.promises.readdir(directory))
+      .filter(file => NTA_FILE_PATTERN.test(file))
+      .sort()
+
+    const registered: CorporateDataset[] = []
+    for (const file of files) {
+      registered.push(await this.register(path.join(directory, file)))
+    }
+    return registered
+  }
+
+  /**
+   * 次に処理すべきデータセット（subset: IDまたは都道府県コードで絞り込み）
+   */
+  async nextDataset(subset?: string[]): Promise<CorporateDataset | null> {
+    const datasets = await this.list()
+    return datasets.find(d =>
+      d.enabled &&
+      !d.progress.completedAt &&
+      (!subset?.length || subset.includes(d.id) || subset.includes(d.prefectureCode || ''))
+    ) ?? null
+  }
+
+  /**
+   * 1件処理後の進捗更新
+   */
+  async recordProgress(id: string, result: ProcessingResult, filterCursor?: FilterCursor): Promise<CorporateDataset> {
+    return this.update(id, dataset => {
+      const progress = dataset.progress
+      progress.currentIndex++
+      if (filterCursor) progress.filterCursor = filterCursor
+      progress.processedCount++
+      if (result.processed && result.scrapingResult) progress.successCount++
+      else progress.errorCount++
+      progress.lastProcessed = result.originalData.corporateName || result.originalData.法人名
+      progress.lastProcessedAt = new Date().toISOString()
+      if (!dataset.filter && progress.currentIndex >= dataset.rowCount) {
+        progress.completedAt = progress.lastProcessedAt
+      }
+    })
+  }
+
+  /**
+   * 処理対象が尽きたデータセットを完了にする
+   */
+  async markCompleted(id: string): Promise<CorporateDataset> {
+    return this.update(id, dataset => {
+      dataset.progress.completedAt = new Date().toISOString()
+    })
+  }
+
+  async resetProgress(id: string): Promise<CorporateDataset> {
+    const dataset = await this.update(id, dataset => {
+      dataset.progress = emptyProgress()
+    })
+    await this.clearSeenNumbers(id)
+    return dataset
+  }
+
+  async setEnabled(id: string, enabled: boolean): Promise<CorporateDataset> {
+    return this.update(id, dataset => {
+      dataset.enabled = enabled
+    })
+  }
+
+  private async update(id: string, mutate: (dataset: CorporateDataset) => void): Promise<CorporateDataset> {
+    const datasets = await this.list()
+    const dataset = datasets.find(d => d.id === id)
+    if (!dataset) {
+      throw new Error(`Dataset not found: ${id}`)
+    }
+
+    mutate(dataset)
+    await this.saveAll(datasets)
+    return dataset
+  }
+
+  private async clearSeenNumbers(id: string): Promise<void> {
+    await fs.promises.rm(this.seenNumbersPath({ id }), { force: true })
+  }
+
+  private async saveAll(datasets: CorporateDataset[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.registryFile), { recursive: true })
+    await fs.promises.writeFile(this.registryFile, JSON.stringify(datasets, null, 2))
+  }
+}
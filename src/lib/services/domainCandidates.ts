@@ -0,0 +1,203 @@
+/**
+ * Domain Candidates
+ * フリガナ（ヘボン式ローマ字）・英語表記・英字の商号から公式サイトのドメイン候補を生成し、検索結果と照合する
+ */
+
+export interface DomainCandidate {
+  domain: string
+  source: 'english' | 'furigana' | 'name' | 'imported'   // 英語表記 / フリガナ / 英字の商号 / リード一覧のURL
+  score: number
+  url?: string        // リード一覧のURL（imported のみ、検索せずに直接巡回する）
+}
+
+export interface DomainNameSource {
+  corporateName?: string
+  corporateNameEn?: string
+  furigana?: string
+  website?: string    // 取り込んだリード一覧のURL（最優先の候補にする）
+}
+
+// 法人格の読み（フリガナに含まれる場合は除去）
+const KANA_ENTITY_TYPES = /カブシキガイシャ|カブシキカイシャ|ユウゲンガイシャ|ユウゲンカイシャ|ゴウドウガイシャ|ゴウドウカイシャ|ゴウシガイシャ|ゴウメイガイシャ|イッパンシャダンホウジン|イッパンザイダンホウジン|イリョウホウジン(シャダン|ザイダン)?|シャカイフクシホウジン|トクテイヒエイリカツドウホウジン/g
+
+// 英語表記の法人格
+const ENGLISH_ENTITY_TYPES = /\b(co\.?,?\s*ltd\.?|company\s+limited|co\.?|ltd\.?|limited|inc\.?|incorporated|corp\.?|corporation|k\.?\s?k\.?|kabushiki\s+kaisha|kabushikigaisha|y\.?k\.?|llc|g\.?k\.?|godo\s+kaisha)(?=\W|$)/gi
+
+const KANJI_ENTITY_TYPES = /株式会社|有限会社|合同会社|合資会社|合名会社|一般社団法人|一般財団法人|公益社団法人|公益財団法人|医療法人社団|医療法人財団|医療法人|社会福祉法人|特定非営利活動法人|学校法人|[(（](株|有|同)[)）]|㈱|㈲/g
+
+// 非営利法人は .or.jp が多い
+const NON_PROFIT = /社団法人|財団法人|医療法人|社会福祉法人|特定非営利活動法人|学校法人|シャダン|ザイダン|イリョウホウジン|フクシホウジン/
+
+const KANA_ROMAJI: Record<string, string> = {
+  ア: 'a', イ: 'i', ウ: 'u', エ: 'e', オ: 'o',
+  カ: 'ka', キ: 'ki', ク: 'ku', ケ: 'ke', コ: 'ko',
+  サ: 'sa', シ: 'shi', ス: 'su', セ: 'se', ソ: 'so',
+  タ: 'ta', チ: 'chi', ツ: 'tsu', テ: 'te', ト: 'to',
+  ナ: 'na', ニ: 'ni', ヌ: 'nu', ネ: 'ne', ノ: 'no',
+  ハ: 'ha', ヒ: 'hi', フ: 'fu', ヘ: 'he', ホ: 'ho',
+  マ: 'ma', ミ: 'mi', ム: 'mu', メ: 'me', モ: 'mo',
+  ヤ: 'ya', ユ: 'yu', ヨ: 'yo',
+  ラ: 'ra', リ: 'ri', ル: 'ru', レ: 're', ロ: 'ro',
+  ワ: 'wa', ヰ: 'i', ヱ: 'e', ヲ: 'o', ン: 'n',
+  ガ: 'ga', ギ: 'gi', グ: 'gu', ゲ: 'ge', ゴ: 'go',
+  ザ: 'za', ジ: 'ji', ズ: 'zu', ゼ: 'ze', ゾ: 'zo',
+  ダ: 'da', ヂ: 'ji', ヅ: 'zu', デ: 'de', ド: 'do',
+  バ: 'ba', ビ: 'bi', ブ: 'bu', ベ: 'be', ボ: 'bo',
+  パ: 'pa', ピ: 'pi', プ: 'pu', ペ: 'pe', ポ: 'po',
+  ヴ: 'vu',
+  ァ: 'a', ィ: 'i', ゥ: 'u', ェ: 'e', ォ: 'o', ャ: 'ya', ュ: 'yu', ョ: 'yo'
+}
+
+// 拗音・外来音（2文字）
+const KANA_DIGRAPHS: Record<string, string> = {
+  キャ: 'kya', キュ: 'kyu', キョ: 'kyo', シャ: 'sha', シュ: 'shu', ショ: 'sho', シェ: 'she',
+  チャ: 'cha', チュ: 'chu', チョ: 'cho', チェ: 'che', ニャ: 'nya', ニュ: 'nyu', ニョ: 'nyo',
+  ヒャ: 'hya', ヒュ: 'hyu', ヒョ: 'hyo', ミャ: 'mya', ミュ: 'myu', ミョ: 'myo',
+  リャ: 'rya', リュ: 'ryu', リョ: 'ryo', ギャ: 'gya', ギュ: 'gyu', ギョ: 'gyo',
+  ジャ: 'ja', ジュ: 'ju', ジョ: 'jo', ジェ: 'je', ビャ: 'bya', ビュ: 'byu', ビョ: 'byo',
+  ピャ: 'pya', ピュ: 'pyu', ピョ: 'pyo', ティ: 'ti', ディ: 'di', デュ: 'dyu', トゥ: 'tu', ドゥ: 'du',
+  ファ: 'fa', フィ: 'fi', フェ: 'fe', フォ: 'fo', ウィ: 'wi', ウェ: 'we', ウォ: 'wo', ヴァ: 'va', ヴィ: 'vi', ヴェ: 've', ヴォ: 'vo'
+}
+
+const MAX_LABEL_LENGTH = 30
+
+/**
+ * カナ → ヘボン式ローマ字（長音は省略、促音は子音を重ねる、ンは n）
+ */
+export function kanaToRomaji(kana: string): string {
+  const katakana = kana.normalize('NFKC').replace(/[ぁ-ゖ]/g, c => String.fromCharCode(c.charCodeAt(0) + 0x60))
+  let romaji = ''
+  let geminate = false
+
+  for (let i = 0; i < katakana.length; i++) {
+    const char = katakana[i]
+    if (char === 'ッ') {
+      geminate = true
+      continue
+    }
+    if (char === 'ー') continue
+
+    const digraph = KANA_DIGRAPHS[katakana.substring(i, i + 2)]
+    const syllable = digraph ?? KANA_ROMAJI[char] ?? (/[A-Za-z0-9]/.test(char) ? char.toLowerCase() : ' ')
+    if (digraph) i++
+
+    if (geminate && /^[a-z]/.test(syllable)) {
+      // ッチ → tchi（ヘボン式）
+      romaji += syllable.startsWith('ch') ? 't' : syllable[0]
+    }
+    geminate = false
+    romaji += syllable
+  }
+  return romaji.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * 長音の簡略化（ou → o、uu → u）
+ */
+export function simplifyLongVowels(romaji: string): string {
+  return romaji.replace(/ou/g, 'o').replace(/uu/g, 'u').replace(/oo(?=[^aeiou]|$)/g, 'o')
+}
+
+/**
+ * ドメイン候補の生成（スコアの高い順）
+ */
+export function generateDomainCandidates(source: DomainNameSource, limit: number = 10): DomainCandidate[] {
+  const bases: Array<{ words: string[], source: DomainCandidate['source'], weight: number }> = []
+
+  if (source.corporateNameEn) {
+    const words = toWords(source.corporateNameEn.replace(ENGLISH_ENTITY_TYPES, ' '))
+    if (words.length > 0) bases.push({ words, source: 'english', weight: 30 })
+  }
+
+  // 商号が英字の場合（「ABC株式会社」等）
+  const nameBase = (source.corporateName || '').normalize('NFKC').replace(KANJI_ENTITY_TYPES, ' ')
+  if (/^[\sA-Za-z0-9&.・-]+$/.test(nameBase) && /[A-Za-z]/.test(nameBase)) {
+    bases.push({ words: toWords(nameBase), source: 'name', weight: 25 })
+  }
+
+  if (source.furigana) {
+    const kana = source.furigana.normalize('NFKC').replace(KANA_ENTITY_TYPES, ' ')
+    const romaji = kanaToRomaji(kana)
+    const simplified = simplifyLongVowels(romaji)
+    if (romaji) bases.push({ words: toWords(simplified), source: 'furigana', weight: 20 })
+    if (romaji && simplified !== romaji) bases.push({ words: toWords(romaji), source: 'furigana', weight: 15 })
+  }
+
+  const nonProfit = NON_PROFIT.test(`${source.corporateName || ''}${source.furigana || ''}`)
+  const tlds: Array<[string, number]> = nonProfit
+    ? [['or.jp', 10], ['jp', 6], ['com', 4], ['org', 3]]
+    : [['co.jp', 10], ['jp', 6], ['com', 5]]
+
+  const candidates = new Map<string, DomainCandidate>()
+  for (const base of bases) {
+    const labels: Array<[string, number]> = [[base.words.join(''), 0]]
+    if (base.words.length > 1) labels.push([base.words.join('-'), -3])
+
+    for (const [label, labelScore] of labels) {
+      if (label.length < 2 || label.length > MAX_LABEL_LENGTH) continue
+      for (const [tld, tldScore] of tlds) {
+        const domain = `${label}.${tld}`
+        // 短いラベルほど実在しやすい
+        const score = base.weight + tldScore + labelScore - Math.floor(label.length / 8)
+        const existing = candidates.get(domain)
+        if (!existing || existing.score < score) candidates.set(domain, { domain, source: base.source, score })
+      }
+    }
+  }
+
+  const ranked = [...candidates.values()].sort((a, b) => b.score - a.score)
+  const imported = importedCandidate(source.website)
+  return imported
+    ? [imported, ...ranked.filter(candidate => candidate.domain !== imported.domain)].slice(0, Math.max(1, limit))
+    : ranked.slice(0, limit)
+}
+
+/**
+ * リード一覧のURL（スキーム省略可）からの候補
+ */
+function importedCandidate(website?: string): DomainCandidate | null {
+  const trimmed = website?.trim()
+  if (!trimmed) return null
+  const url = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+  const domain = hostnameOf(url)
+  return domain ? { domain, source: 'imported', score: 100, url } : null
+}
+
+/**
+ * 検索結果のURLとドメイン候補の照合（サブドメインも一致扱い、候補のスコア順）
+ */
+export function matchDomainCandidate(candidates: DomainCandidate[], urls: string[]): { candidate: DomainCandidate, url: string } | null {
+  for (const candidate of candidates) {
+    for (const url of urls) {
+      const host = hostnameOf(url)
+      if (host && (host === candidate.domain || host.endsWith(`.${candidate.domain}`))) {
+        return { candidate, url }
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * URLがドメイン候補のいずれかに当たるか
+ */
+export function isCandidateDomain(url: string, candidates: DomainCandidate[]): boolean {
+  return matchDomainCandidate(candidates, [url]) !== null
+}
+
+function toWords(text: string): string[] {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+function hostnameOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '')
+  } catch {
+    return undefined
+  }
+}
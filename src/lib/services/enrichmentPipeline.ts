@@ -0,0 +1,230 @@
+/**
+ * Enrichment Pipeline
+ * 企業情報収集の段階（求人確認・公式サイト・直接検索・電話番号検証）をキャンペーンごとに構成する
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type { Page } from 'playwright'
+import type { CorporateRecord } from './corporateCsvLoader'
+import type { AddressMatch, NormalizedAddress } from './addressNormalizer'
+import type { JobPostingEvidence } from './jobPostingEvidence'
+import type { ContactField, ExtractionMethod } from './contactExtractor'
+import type { ContactForm } from './contactFormDetector'
+import type { ClassifiedPhone, PhoneType } from './phoneClassifier'
+import type { ContactPoint } from './contactPoints'
+import type { SiteOwnership } from './siteOwnership'
+import { SearchChain, SearchProviderName, parseSearchProviderOrder } from './searchProviders'
+
+export type StageName = 'jobPosting' | 'officialSite' | 'directSearch' | 'phoneVerification'
+
+// gate: 不成立なら以降を打ち切る / advisory: 結果を記録して続行
+export type StageMode = 'gate' | 'advisory'
+
+export interface StageConfig {
+  stage: StageName
+  enabled: boolean
+  mode: StageMode
+  params?: Record<string, unknown>
+}
+
+export interface Campaign {
+  id: string
+  name: string
+  description?: string
+  stages: StageConfig[]
+  // 検索プロバイダの順序（未指定時は環境変数 SEARCH_PROVIDERS → DuckDuckGo・Brave・DataForSEO）
+  searchProviders?: SearchProviderName[]
+  createdAt: string
+  updatedAt: string
+}
+
+export type CampaignInput = Omit<Campaign, 'createdAt' | 'updatedAt'>
+
+export interface StageOutcome {
+  stage: StageName
+  mode: StageMode
+  passed: boolean
+  skipped?: boolean
+  reason?: string
+  executionTime: number
+}
+
+// 連絡先段階が抽出した連絡先候補
+export interface ContactCandidate {
+  companyName?: string
+  phoneNumber?: string
+  email?: string
+  website?: string
+  address?: string
+  businessType?: string
+  confidence?: number
+  normalizedAddress?: NormalizedAddress
+  addressMatch?: AddressMatch
+  phoneVerified?: boolean
+  source?: StageName
+  extractionMethods?: Partial<Record<ContactField, ExtractionMethod>> // 項目ごとの抽出方法
+  contactFormUrl?: string          // 問い合わせフォームのURL
+  contactForm?: ContactForm        // フォームの種別・必須項目・CAPTCHA
+  phoneType?: PhoneType            // 電話番号の種別（代表・採用・携帯等）
+  phoneNumbers?: ClassifiedPhone[] // ページ内で見つかった番号と種別
+  contactPoints?: ContactPoint[]   // 取得したすべての連絡先（取得元・確認日時付き）
+  siteOwnership?: SiteOwnership    // 公式サイトと登記情報の照合結果
+}
+
+// 段階間で共有する処理コンテキスト
+export interface StageContext {
+  record: CorporateRecord
+  companyName: string
+  cityName: string
+  registryAddress: NormalizedAddress
+  page: Page
+  searchChain: SearchChain         // 検索（失敗時は次のプロバイダへ切り替え）
+  contact: ContactCandidate | null // 採用済みの連絡先
+  phoneVerification?: StageConfig  // 連絡先候補に適用する電話番号検証
+  signals: Record<string, unknown> // 段階の判定結果（例: hasJobPosting）
+  jobPostings: JobPostingEvidence[] // 求人掲載の根拠
+  outcomes: StageOutcome[]
+}
+
+export const STAGE_NAMES: StageName[] = ['jobPosting', 'officialSite', 'directSearch', 'phoneVerification']
+
+// 連絡先候補を生成する段階（いずれかで採用されたら残りは実行しない）
+export const CONTACT_STAGES: StageName[] = ['officialSite', 'directSearch']
+
+// 従来の4段階処理と同じ構成
+export const DEFAULT_STAGES: StageConfig[] = [
+  { stage: 'jobPosting', enabled: true, mode: 'gate', params: { maxQueries: 5 } },
+  { stage: 'officialSite', enabled: true, mode: 'advisory', params: { maxQueries: 3, maxResults: 3, crawlDepth: 2, crawlMaxPages: 6, domainCandidates: 8 } },
+  { stage: 'directSearch', enabled: true, mode: 'advisory', params: { maxAttempts: 5, maxResults: 3, optimizeQuery: true } },
+  { stage: 'phoneVerification', enabled: true, mode: 'gate' }
+]
+
+/**
+ * 段階パラメータの取得（未指定・型違いは既定値）
+ */
+export function stageParam<T extends number | boolean | string>(config: StageConfig | undefined, key: string, fallback: T): T {
+  const value = config?.params?.[key]
+  return typeof value === typeof fallback ? value as T : fallback
+}
+
+/**
+ * キャンペーンの段階構成（未指定なら既定構成）
+ */
+export function resolveStages(campaign?: Campaign | null): StageConfig[] {
+  return campaign?.stages.length ? campaign.stages : DEFAULT_STAGES
+}
+
+/**
+ * 段階パラメータを上書きしたキャンペーン（実行時指定用。未指定時は既定構成を基にする）
+ */
+export function withStageParams(campaign: Campaign | undefined, stage: StageName, params: Record<string, unknown>): Campaign {
+  const base: Campaign = campaign ?? {
+    id: 'default',
+    name: '既定構成',
+    stages: DEFAULT_STAGES,
+    createdAt: '',
+    updatedAt: ''
+  }
+  return {
+    ...base,
+    stages: resolveStages(base).map(config =>
+      config.stage === stage ? { ...config, params: { ...config.params, ...params } } : config
+    )
+  }
+}
+
+/**
+ * 段階構成の検証
+ */
+export function validateStages(stages: StageConfig[]): void {
+  if (!Array.isArray(stages) || stages.length === 0) {
+    throw new Error('stages must be a non-empty array')
+  }
+
+  const seen = new Set<StageName>()
+  for (const config of stages) {
+    if (!STAGE_NAMES.includes(config.stage)) {
+      throw new Error(`Unknown stage: ${config.stage}. Use: ${STAGE_NAMES.join(', ')}`)
+    }
+    if (seen.has(config.stage)) {
+      throw new Error(`Duplicate stage: ${config.stage}`)
+    }
+    if (config.mode !== 'gate' && config.mode !== 'advisory') {
+      throw new Error(`Invalid mode for ${config.stage}: ${config.mode}. Use: gate, advisory`)
+    }
+    seen.add(config.stage)
+  }
+
+  if (!stages.some(config => config.enabled && CONTACT_STAGES.includes(config.stage))) {
+    throw new Error(`At least one contact stage must be enabled: ${CONTACT_STAGES.join(', ')}`)
+  }
+}
+
+const DEFAULT_CAMPAIGN_FILE = path.join(process.cwd(), 'data', 'campaigns.json')
+
+export class CampaignStore {
+  constructor(private readonly campaignFile: string = DEFAULT_CAMPAIGN_FILE) {}
+
+  async list(): Promise<Campaign[]> {
+    if (!fs.existsSync(this.campaignFile)) return []
+    const campaigns: Campaign[] = JSON.parse(await fs.promises.readFile(this.campaignFile, 'utf8'))
+    return campaigns.sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  async get(id: string): Promise<Campaign | null> {
+    const campaigns = await this.list()
+    return campaigns.find(c => c.id === id) ?? null
+  }
+
+  /**
+   * キャンペーンを作成・更新
+   */
+  async save(input: CampaignInput): Promise<Campaign> {
+    if (!input.id || !/^[a-z0-9_-]+$/i.test(input.id)) {
+      throw new Error('Campaign id must be alphanumeric (a-z, 0-9, _ , -)')
+    }
+    if (!input.name) {
+      throw new Error('Campaign name is required')
+    }
+    const stages = (input.stages || []).map(config => ({
+      stage: config.stage,
+      enabled: config.enabled !== false,
+      mode: config.mode || DEFAULT_STAGES.find(d => d.stage === config.stage)?.mode || 'gate',
+      params: config.params
+    }))
+    validateStages(stages)
+    const searchProviders = input.searchProviders ? parseSearchProviderOrder(input.searchProviders) : undefined
+
+    const campaigns = await this.list()
+    const existing = campaigns.find(c => c.id === input.id)
+    const now = new Date().toISOString()
+    const campaign: Campaign = {
+      id: input.id,
+      name: input.name,
+      description: input.description,
+      stages,
+      searchProviders: searchProviders?.length ? searchProviders : undefined,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    }
+
+    await this.saveAll([...campaigns.filter(c => c.id !== campaign.id), campaign])
+    console.log(`📝 キャンペーン保存: ${campaign.id} (${stages.filter(s => s.enabled).map(s => s.stage).join(' → ')})`)
+    return campaign
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const campaigns = await this.list()
+    const remaining = campaigns.filter(c => c.id !== id)
+    if (remaining.length === campaigns.length) return false
+
+    await this.saveAll(remaining)
+    return true
+  }
+
+  private async saveAll(campaigns: Campaign[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.campaignFile), { recursive: true })
+    await fs.promises.writeFile(this.campaignFile, JSON.stringify(campaigns, null, 2))
+  }
+}
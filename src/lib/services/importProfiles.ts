@@ -0,0 +1,128 @@
+/**
+ * Import Profiles
+ * 展示会リスト・パートナー提供リスト等の任意CSVをCorporateRecordへ対応付ける列マッピング定義
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { CorporateField, CsvEncoding, CsvReadOptions } from './corporateCsvLoader'
+import type { ValidatorOptions } from './corporateRecordValidator'
+
+export interface ImportProfile {
+  id: string
+  name: string
+  description?: string
+  encoding?: CsvEncoding                                      // 未指定時は自動判定
+  columns: Partial<Record<CorporateField, string | string[]>>  // フィールド → CSVの列名（候補を複数指定可）
+  requireCorporateNumber?: boolean                            // 法人番号必須（既定: 不要）
+  createdAt: string
+  updatedAt: string
+}
+
+export type ImportProfileInput = Omit<ImportProfile, 'createdAt' | 'updatedAt'>
+
+// プロファイルで対応付けできるフィールド
+export const MAPPABLE_FIELDS: CorporateField[] = [
+  'corporateName',
+  'corporateNumber',
+  'address',
+  'prefectureName',
+  'cityName',
+  'streetNumber',
+  'postalCode',
+  'phoneNumber',
+  'website',
+  'email',
+  'representative',
+  'establishedDate',
+  'capital',
+  'employeeCount',
+  'furigana',
+  'corporateNameEn'
+]
+
+const DEFAULT_PROFILE_FILE = path.join(process.cwd(), 'data', 'import_profiles.json')
+
+/**
+ * 読み込みオプションへ変換
+ */
+export function profileReadOptions(profile: ImportProfile): CsvReadOptions {
+  const columnAliases: CsvReadOptions['columnAliases'] = {}
+  for (const [field, columns] of Object.entries(profile.columns) as Array<[CorporateField, string | string[]]>) {
+    columnAliases[field] = Array.isArray(columns) ? columns : [columns]
+  }
+  return { encoding: profile.encoding, columnAliases }
+}
+
+/**
+ * 検証オプションへ変換（リード一覧は法人番号なしを許容）
+ */
+export function profileValidatorOptions(profile: ImportProfile): Pick<ValidatorOptions, 'requireCorporateNumber'> {
+  return { requireCorporateNumber: profile.requireCorporateNumber ?? false }
+}
+
+export class ImportProfileStore {
+  constructor(private readonly profileFile: string = DEFAULT_PROFILE_FILE) {}
+
+  async list(): Promise<ImportProfile[]> {
+    if (!fs.existsSync(this.profileFile)) return []
+    const profiles: ImportProfile[] = JSON.parse(await fs.promises.readFile(this.profileFile, 'utf8'))
+    return profiles.sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  async get(id: string): Promise<ImportProfile | null> {
+    const profiles = await this.list()
+    return profiles.find(p => p.id === id) ?? null
+  }
+
+  /**
+   * プロファイルを作成・更新
+   */
+  async save(input: ImportProfileInput): Promise<ImportProfile> {
+    if (!input.id || !/^[a-z0-9_-]+$/i.test(input.id)) {
+      throw new Error('Profile id must be alphanumeric (a-z, 0-9, _ , -)')
+    }
+    if (!input.name) {
+      throw new Error('Profile name is required')
+    }
+    if (!input.columns?.corporateName) {
+      throw new Error('columns.corporateName is required')
+    }
+    const unknownFields = Object.keys(input.columns).filter(field => !MAPPABLE_FIELDS.includes(field as CorporateField))
+    if (unknownFields.length > 0) {
+      throw new Error(`Unknown profile fields: ${unknownFields.join(', ')}`)
+    }
+
+    const profiles = await this.list()
+    const existing = profiles.find(p => p.id === input.id)
+    const now = new Date().toISOString()
+    const profile: ImportProfile = {
+      id: input.id,
+      name: input.name,
+      description: input.description,
+      encoding: input.encoding,
+      columns: input.columns,
+      requireCorporateNumber: input.requireCorporateNumber,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    }
+
+    await this.saveAll([...profiles.filter(p => p.id !== profile.id), profile])
+    console.log(`📝 インポートプロファイル保存: ${profile.id} (${profile.name})`)
+    return profile
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const profiles = await this.list()
+    const remaining = profiles.filter(p => p.id !== id)
+    if (remaining.length === profiles.length) return false
+
+    await this.saveAll(remaining)
+    return true
+  }
+
+  private async saveAll(profiles: ImportProfile[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.profileFile), { recursive: true })
+    await fs.promises.writeFile(this.profileFile, JSON.stringify(profiles, null, 2))
+  }
+}
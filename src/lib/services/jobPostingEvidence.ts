@@ -0,0 +1,198 @@
+/**
+ * Job Posting Evidence
+ * 求人掲載の根拠（掲載サイト・URL・職種・雇用形態・掲載日）の抽出
+ */
+
+export interface JobPostingEvidence {
+  site: string               // 掲載サイト名（Indeed、リクナビ等。不明時はドメイン）
+  url: string
+  title: string              // 求人タイトル・職種
+  employmentType?: string    // 正社員・契約社員・アルバイト・パート等
+  postedAt?: string          // 掲載日・更新日（YYYY-MM-DD）
+  verifiedBy: 'jobSite' | 'searchResult' // 掲載ページで確認 / 検索結果のAI判定
+}
+
+// 転職・求人サイトのドメインと表示名
+export const JOB_SITES: Record<string, string> = {
+  'indeed.com': 'Indeed',
+  'rikunabi.com': 'リクナビ',
+  'mynavi.jp': 'マイナビ',
+  'doda.jp': 'doda',
+  'doda.com': 'doda',
+  'en-japan.com': 'エン転職',
+  'bizreach.co.jp': 'ビズリーチ',
+  'townwork.net': 'タウンワーク',
+  'baitoru.com': 'バイトル',
+  'hellowork.mhlw.go.jp': 'ハローワーク'
+}
+
+// schema.org JobPosting の employmentType
+const SCHEMA_EMPLOYMENT_TYPES: Record<string, string> = {
+  FULL_TIME: '正社員',
+  PART_TIME: 'アルバイト・パート',
+  CONTRACTOR: '業務委託',
+  TEMPORARY: '派遣社員',
+  INTERN: 'インターン',
+  VOLUNTEER: 'ボランティア',
+  PER_DIEM: '日雇い'
+}
+
+// 本文中の雇用形態（先に一致したものを採用）
+const EMPLOYMENT_TYPE_PATTERNS: Array<[RegExp, string]> = [
+  [/正社員|正職員/, '正社員'],
+  [/契約社員/, '契約社員'],
+  [/派遣社員|人材派遣/, '派遣社員'],
+  [/アルバイト|パート/, 'アルバイト・パート'],
+  [/業務委託/, '業務委託'],
+  [/新卒採用|新卒/, '新卒']
+]
+
+const DATE_LABEL_PATTERN = /(?:掲載日|掲載開始日|掲載開始|更新日|公開日|情報更新日|掲載期間)\s*[：:]?\s*(\d{4})\s*[年/.-]\s*(\d{1,2})\s*[月/.-]\s*(\d{1,2})/
+const RELATIVE_DATE_PATTERN = /(\d+)\s*(日|週間|ヶ月|か月|カ月)前(?:に掲載|に更新|掲載)?|(本日|今日)(?:掲載|更新)|(?:Posted|Active)\s+(\d+)\s+days?\s+ago/i
+
+/**
+ * URLから掲載サイト名を判定
+ */
+export function jobSiteName(url: string): string {
+  let hostname = ''
+  try {
+    hostname = new URL(url).hostname
+  } catch {
+    return url
+  }
+  const domain = Object.keys(JOB_SITES).find(d => hostname === d || hostname.endsWith(`.${d}`))
+  return domain ? JOB_SITES[domain] : hostname.replace(/^www\./, '')
+}
+
+/**
+ * 雇用形態の判定（schema.org の値・本文の表記）
+ */
+export function detectEmploymentType(value: unknown): string | undefined {
+  const values = Array.isArray(value) ? value : [value]
+  for (const v of values) {
+    if (typeof v !== 'string') continue
+    const schemaType = SCHEMA_EMPLOYMENT_TYPES[v.trim().toUpperCase().replace(/[-\s]/g, '_')]
+    if (schemaType) return schemaType
+    const matched = EMPLOYMENT_TYPE_PATTERNS.find(([pattern]) => pattern.test(v))
+    if (matched) return matched[1]
+  }
+  return undefined
+}
+
+/**
+ * 掲載日の抽出（「掲載日：2026年10月1日」「3日前に掲載」等）→ YYYY-MM-DD
+ */
+export function parsePostedAt(text: string, now: Date = new Date()): string | undefined {
+  const labeled = text.match(DATE_LABEL_PATTERN)
+  if (labeled) {
+    return formatDate(new Date(Number(labeled[1]), Number(labeled[2]) - 1, Number(labeled[3])))
+  }
+
+  const relative = text.match(RELATIVE_DATE_PATTERN)
+  if (relative) {
+    const date = new Date(now)
+    if (relative[1]) {
+      const amount = Number(relative[1])
+      const unit = relative[2]
+      const days = unit === '日' ? amount : unit === '週間' ? amount * 7 : amount * 30
+      date.setDate(date.getDate() - days)
+    } else if (relative[4]) {
+      date.setDate(date.getDate() - Number(relative[4]))
+    }
+    return formatDate(date)
+  }
+  return undefined
+}
+
+/**
+ * 求人ページHTMLから根拠を抽出（JSON-LD JobPosting 優先、なければ本文の表記）
+ */
+export function extractJobPostingEvidence(html: string, url: string, linkTitle: string): JobPostingEvidence {
+  const evidence: JobPostingEvidence = {
+    site: jobSiteName(url),
+    url,
+    title: linkTitle.trim() || extractTitle(html) || '',
+    verifiedBy: 'jobSite'
+  }
+
+  const posting = findJsonLdJobPosting(html)
+  if (posting) {
+    if (typeof posting.title === 'string' && posting.title.trim()) evidence.title = posting.title.trim()
+    evidence.employmentType = detectEmploymentType(posting.employmentType)
+    // 日付部分をそのまま使う（タイムゾーン換算で日付がずれないように）
+    const datePosted = typeof posting.datePosted === 'string' ? posting.datePosted.match(/^(\d{4})-(\d{2})-(\d{2})/) : null
+    if (datePosted) evidence.postedAt = datePosted.slice(1, 4).join('-')
+  }
+
+  const text = html
+    .replace(/<script[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[\s\S]*?<\/style>/gi, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+  evidence.employmentType ??= detectEmploymentType(`${evidence.title} ${text.substring(0, 20000)}`)
+  evidence.postedAt ??= parsePostedAt(text)
+  return evidence
+}
+
+/**
+ * 掲載からの経過日数（掲載日不明は null）
+ */
+export function postingAgeDays(evidence: JobPostingEvidence, now: Date = new Date()): number | null {
+  if (!evidence.postedAt) return null
+  return Math.floor((now.getTime() - new Date(evidence.postedAt).getTime()) / (24 * 60 * 60 * 1000))
+}
+
+/**
+ * 掲載日が maxAgeDays 以内の根拠のみ（maxAgeDays 未指定なら全件、掲載日不明は除外）
+ */
+export function filterFreshEvidence(evidence: JobPostingEvidence[], maxAgeDays?: number, now: Date = new Date()): JobPostingEvidence[] {
+  if (!maxAgeDays || maxAgeDays <= 0) return evidence
+  return evidence.filter(e => {
+    const age = postingAgeDays(e, now)
+    return age !== null && age <= maxAgeDays
+  })
+}
+
+/**
+ * 営業担当向けの1行表示（例: Indeed 正社員「営業職」2026-10-01）
+ */
+export function formatEvidence(evidence: JobPostingEvidence): string {
+  return [
+    evidence.site,
+    evidence.employmentType,
+    evidence.title ? `「${evidence.title}」` : '',
+    evidence.postedAt,
+    evidence.url
+  ].filter(Boolean).join(' ')
+}
+
+function findJsonLdJobPosting(html: string): Record<string, unknown> | null {
+  const scripts = html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi)
+  for (const [, json] of scripts) {
+    let data: unknown
+    try {
+      data = JSON.parse(json.trim())
+    } catch {
+      continue
+    }
+    const nodes = (Array.isArray(data) ? data : [data]).flatMap(node =>
+      node && typeof node === 'object' && Array.isArray((node as Record<string, unknown>)['@graph'])
+        ? (node as Record<string, unknown[]>)['@graph']
+        : [node]
+    )
+    const posting = nodes.find(node => node && typeof node === 'object' && (node as Record<string, unknown>)['@type'] === 'JobPosting')
+    if (posting) return posting as Record<string, unknown>
+  }
+  return null
+}
+
+function extractTitle(html: string): string | undefined {
+  return html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1].replace(/\s+/g, ' ').trim()
+}
+
+function formatDate(date: Date): string {
+  const y = date.getFullYear()
+  const m = String(date.getMonth() + 1).padStart(2, '0')
+  const d = String(date.getDate()).padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
@@ -0,0 +1,166 @@
+/**
+ * Phone Classifier
+ * 電話番号の種別判定（前後の表記「代表・採用担当・FAX」と番号帯「0120・050・090」）と架電先の選択
+ */
+
+import { ExtractionMethod, normalizePhone } from './contactExtractor'
+
+export type PhoneType =
+  | 'representative' // 代表・本社
+  | 'recruiting'     // 採用担当・人事
+  | 'fax'            // FAX（架電対象外）
+  | 'mobile'         // 070/080/090
+  | 'toll-free'      // 0120/0800
+  | 'ip'             // 050
+  | 'landline'       // 表記なしの固定電話
+
+export const PHONE_TYPE_LABELS: Record<PhoneType, string> = {
+  representative: '代表',
+  recruiting: '採用',
+  fax: 'FAX',
+  mobile: '携帯',
+  'toll-free': 'フリーダイヤル',
+  ip: 'IP電話',
+  landline: '固定電話'
+}
+
+export interface ClassifiedPhone {
+  number: string
+  type: PhoneType
+  label?: string     // 判定に使った表記（「代表」「FAX」等）
+  callable: boolean  // 架電リストに載せられるか（FAXは不可）
+  method?: ExtractionMethod
+}
+
+// 番号直前の表記 → 種別（番号に最も近い表記を採用）
+const CONTEXT_LABELS: Array<[RegExp, PhoneType | null]> = [
+  [/FAX|Fax|fax|ファックス|ファクス/g, 'fax'],
+  [/採用|人事部|人事課|リクルート|求人/g, 'recruiting'],
+  [/大代表|代表|本社|本店/g, 'representative'],
+  // 「TEL」「電話」だけの表記は種別を決めない（番号帯で判定）
+  [/TEL|Tel|tel|電話番号|電話/g, null]
+]
+
+// TEL・FAX 共用の回線は電話として扱う
+const SHARED_LINE = /(TEL|電話)\s*[・/／&＆]\s*(FAX|ファックス)/i
+
+// 架電先の優先順
+const CALL_PRIORITY: PhoneType[] = ['representative', 'landline', 'toll-free', 'ip', 'mobile', 'recruiting']
+
+const PHONE_PATTERN_GLOBAL = /[(（]?0\d{1,4}[-‐－−ー\s()（）]{0,2}\d{1,4}[-‐－−ー\s()（）]{0,2}\d{3,4}/g
+const CONTEXT_LENGTH = 30
+
+/**
+ * 番号帯による種別
+ */
+export function classifyByNumber(phoneNumber: string): PhoneType {
+  const digits = phoneNumber.replace(/\D/g, '')
+  if (/^(0120|0800)/.test(digits)) return 'toll-free'
+  if (/^050/.test(digits)) return 'ip'
+  if (/^0[789]0/.test(digits) && digits.length === 11) return 'mobile'
+  return 'landline'
+}
+
+/**
+ * 番号前後の表記と番号帯による種別（番号直後の括弧書き → 直前の表記 → 番号帯）
+ */
+export function classifyPhone(phoneNumber: string, context: string = '', following: string = ''): ClassifiedPhone {
+  const number = normalizePhone(phoneNumber) ?? phoneNumber
+  const byNumber = classifyByNumber(number)
+
+  if (SHARED_LINE.test(context)) {
+    return { number, type: byNumber, label: 'TEL/FAX', callable: true }
+  }
+
+  // 「03-1234-5678（代表）」のような番号直後の注記
+  const note = following.match(/^\s*[(（]([^)）]{1,12})[)）]/)?.[1]
+  const noteLabel = note ? CONTEXT_LABELS.find(([pattern, type]) => type && new RegExp(pattern.source).test(note)) : undefined
+  if (noteLabel) {
+    const type = noteLabel[1]!
+    return { number, type, label: note, callable: type !== 'fax' }
+  }
+
+  let nearest: { index: number, label: string, type: PhoneType | null } | null = null
+  for (const [pattern, type] of CONTEXT_LABELS) {
+    for (const match of context.matchAll(pattern)) {
+      if (!nearest || match.index! > nearest.index) {
+        nearest = { index: match.index!, label: match[0], type }
+      }
+    }
+  }
+
+  const type = nearest?.type ?? byNumber
+  return { number, type, label: nearest?.label, callable: type !== 'fax' }
+}
+
+/**
+ * ページ内の電話番号をすべて種別付きで抽出（tel:リンク・本文）
+ */
+export function extractClassifiedPhones(html: string): ClassifiedPhone[] {
+  const phones = new Map<string, ClassifiedPhone>()
+  const add = (phone: ClassifiedPhone) => {
+    const digits = phone.number.replace(/\D/g, '')
+    if (digits.length < 10 || digits.length > 11) return
+    const existing = phones.get(digits)
+    // 同じ番号に複数の表記がある場合は FAX → 採用 → 代表 の順に具体的な判定を残す
+    if (!existing || specificity(phone) > specificity(existing)) phones.set(digits, phone)
+  }
+
+  for (const match of html.matchAll(/<a\b[^>]*href=["']tel:([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+    const before = textOf(html.substring(Math.max(0, match.index! - 200), match.index!)).slice(-CONTEXT_LENGTH)
+    add({ ...classifyPhone(decodeURIComponent(match[1]), `${before} ${textOf(match[2]).replace(PHONE_PATTERN_GLOBAL, '')}`), method: 'tel-link' })
+  }
+
+  const text = textOf(html)
+  let previousEnd = 0
+  for (const match of text.matchAll(PHONE_PATTERN_GLOBAL)) {
+    // 直前の番号より前の表記は含めない（「TEL 03-… FAX 03-…」の取り違え防止）
+    const start = Math.max(previousEnd, match.index! - CONTEXT_LENGTH)
+    previousEnd = match.index! + match[0].length
+    const number = normalizePhone(match[0])
+    const following = text.substring(previousEnd, previousEnd + CONTEXT_LENGTH)
+    if (number) add({ ...classifyPhone(number, text.substring(start, match.index!), following), method: 'text-pattern' })
+  }
+  return [...phones.values()]
+}
+
+/**
+ * 架電先の選択（FAXを除外し、代表番号を優先）
+ */
+export function selectCallablePhone(phones: ClassifiedPhone[]): ClassifiedPhone | null {
+  const callable = phones.filter(phone => phone.callable)
+  callable.sort((a, b) => phoneCallRank(a.type) - phoneCallRank(b.type))
+  return callable[0] ?? null
+}
+
+/**
+ * 架電先としての優先順位（小さいほど優先、FAXは対象外）
+ */
+export function phoneCallRank(type: PhoneType): number {
+  const rank = CALL_PRIORITY.indexOf(type)
+  return rank >= 0 ? rank : CALL_PRIORITY.length
+}
+
+/**
+ * 抽出済みの番号をページ内の判定結果と照合（ページにない番号は番号帯で判定）
+ */
+export function findClassifiedPhone(phoneNumber: string, phones: ClassifiedPhone[]): ClassifiedPhone {
+  const digits = phoneNumber.replace(/\D/g, '')
+  return phones.find(phone => phone.number.replace(/\D/g, '') === digits) ?? classifyPhone(phoneNumber)
+}
+
+function specificity(phone: ClassifiedPhone): number {
+  if (phone.type === 'fax') return 3
+  if (phone.type === 'recruiting') return 2
+  if (phone.type === 'representative') return 1
+  return 0
+}
+
+function textOf(html: string): string {
+  return html
+    .replace(/<script[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[\s\S]*?<\/style>/gi, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+}
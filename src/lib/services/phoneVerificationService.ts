@@ -110,8 +110,6 @@ export class PhoneVerificationService {
     for (const query of searchQueries) {
       try {
         console.log(`🔍 検索中: ${query}`);
-        await this.braveSearch.rateLimitDelay();
-        
         const result = await this.braveSearch.braveSearch(query, {
           count: 10,
           country: 'JP',
@@ -174,8 +172,6 @@ export class PhoneVerificationService {
     for (const query of businessQueries) {
       try {
         console.log(`🏢 ビジネスリスティング検索: ${query}`);
-        await this.braveSearch.rateLimitDelay();
-        
         const result = await this.braveSearch.braveSearch(query, {
           count: 5,
           country: 'JP',
@@ -0,0 +1,169 @@
+/**
+ * Processing Trace
+ * 企業ごとの処理経過（検索クエリ・訪問ページ・AI判定・段階結果）の記録と保存
+ */
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { AsyncLocalStorage } from 'async_hooks'
+import type { StageName } from './enrichmentPipeline'
+
+export type TraceStepType = 'stage' | 'search' | 'visit' | 'ai' | 'check' | 'error'
+
+export interface TraceStep {
+  type: TraceStepType
+  at: string
+  stage?: StageName
+  durationMs?: number
+  // search
+  provider?: string
+  query?: string
+  resultUrls?: string[]
+  // visit
+  url?: string
+  title?: string
+  // ai
+  purpose?: string
+  model?: string
+  prompt?: string
+  promptLength?: number
+  response?: string
+  verdict?: unknown
+  // stage / check
+  name?: string
+  passed?: boolean
+  reason?: string
+  detail?: Record<string, unknown>
+  error?: string
+}
+
+export interface ProcessingTrace {
+  traceId: string
+  corporateNumber?: string
+  companyName: string
+  campaignId?: string
+  startedAt: string
+  finishedAt: string
+  executionTime: number
+  outcome: 'success' | 'failed' | 'error'
+  reason?: string
+  steps: TraceStep[]
+}
+
+// AIプロンプトはHTMLを含むため先頭のみ保存
+const MAX_PROMPT_CHARS = 4000
+const MAX_RESPONSE_CHARS = 4000
+
+export class TraceRecorder {
+  readonly traceId = crypto.randomUUID()
+  private readonly startedAt = new Date()
+  private readonly steps: TraceStep[] = []
+  private stage?: StageName
+
+  constructor(private readonly meta: { corporateNumber?: string, companyName: string, campaignId?: string }) {}
+
+  get campaignId(): string | undefined {
+    return this.meta.campaignId
+  }
+
+  /**
+   * 以降の記録に付ける段階名
+   */
+  setStage(stage?: StageName): void {
+    this.stage = stage
+  }
+
+  record(step: Omit<TraceStep, 'at' | 'stage'>): TraceStep {
+    const entry: TraceStep = { at: new Date().toISOString(), stage: this.stage, ...step }
+    if (entry.prompt && entry.prompt.length > MAX_PROMPT_CHARS) {
+      entry.promptLength = entry.prompt.length
+      entry.prompt = entry.prompt.substring(0, MAX_PROMPT_CHARS)
+    }
+    if (entry.response && entry.response.length > MAX_RESPONSE_CHARS) {
+      entry.response = entry.response.substring(0, MAX_RESPONSE_CHARS)
+    }
+    this.steps.push(entry)
+    return entry
+  }
+
+  /**
+   * 直近のAI呼び出しに判定結果を付与
+   */
+  verdict(purpose: string, value: unknown): void {
+    const step = [...this.steps].reverse().find(s => s.type === 'ai' && s.purpose === purpose)
+    if (step) step.verdict = value
+  }
+
+  finish(result: { processed: boolean, hasContact: boolean, error?: string }): ProcessingTrace {
+    const finishedAt = new Date()
+    const thrown = this.steps.some(step => step.type === 'error')
+    return {
+      traceId: this.traceId,
+      ...this.meta,
+      startedAt: this.startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      executionTime: finishedAt.getTime() - this.startedAt.getTime(),
+      outcome: thrown ? 'error' : result.processed && result.hasContact ? 'success' : 'failed',
+      reason: result.error,
+      steps: [...this.steps]
+    }
+  }
+}
+
+const traceStorage = new AsyncLocalStorage<TraceRecorder>()
+
+/**
+ * トレース記録中に処理を実行（非同期処理の中でも currentTrace() で参照できる）
+ */
+export function runWithTrace<T>(recorder: TraceRecorder, fn: () => Promise<T>): Promise<T> {
+  return traceStorage.run(recorder, fn)
+}
+
+export function currentTrace(): TraceRecorder | undefined {
+  return traceStorage.getStore()
+}
+
+const DEFAULT_TRACE_DIR = path.join(process.cwd(), 'data', 'traces')
+const MAX_TRACES_PER_COMPANY = 20
+
+export class TraceStore {
+  constructor(private readonly traceDir: string = DEFAULT_TRACE_DIR) {}
+
+  /**
+   * 保存キー（法人番号、なければ企業名のハッシュ）
+   */
+  static keyFor(trace: Pick<ProcessingTrace, 'corporateNumber' | 'companyName'>): string {
+    if (trace.corporateNumber && /^\d{13}$/.test(trace.corporateNumber)) return trace.corporateNumber
+    return `name-${crypto.createHash('sha1').update(trace.companyName).digest('hex').substring(0, 16)}`
+  }
+
+  /**
+   * 企業ごとのファイルへ追記（新しい順、最大20件）
+   */
+  async save(trace: ProcessingTrace): Promise<void> {
+    const traces = await this.list(TraceStore.keyFor(trace))
+    const updated = [trace, ...traces].slice(0, MAX_TRACES_PER_COMPANY)
+
+    await fs.promises.mkdir(this.traceDir, { recursive: true })
+    await fs.promises.writeFile(this.filePath(TraceStore.keyFor(trace)), JSON.stringify(updated, null, 2))
+  }
+
+  async list(key: string): Promise<ProcessingTrace[]> {
+    const filePath = this.filePath(key)
+    if (!fs.existsSync(filePath)) return []
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+  }
+
+  async get(key: string, traceId?: string): Promise<ProcessingTrace | null> {
+    const traces = await this.list(key)
+    return (traceId ? traces.find(t => t.traceId === traceId) : traces[0]) ?? null
+  }
+
+  private filePath(key: string): string {
+    if (!/^[\w-]+$/.test(key)) {
+      throw new Error(`Invalid trace key: ${key}`)
+    }
+    return path.join(this.traceDir, `${key}.json`)
+  }
+}
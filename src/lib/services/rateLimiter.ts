@@ -0,0 +1,93 @@
+/**
+ * Rate Limiter
+ * 検索エンジン・AI APIなど外部プロバイダへのリクエスト間隔を、並列ワーカー間で共有して制御する
+ */
+
+export type RateLimitedProvider = 'duckduckgo' | 'brave' | 'dataforseo' | 'gemini'
+
+export interface RateLimitConfig {
+  minIntervalMs: number  // リクエスト開始の最小間隔
+  maxConcurrent: number  // 同時実行数の上限
+}
+
+// 既定値（環境変数で上書き可）
+export const PROVIDER_RATE_LIMITS: Record<RateLimitedProvider, RateLimitConfig> = {
+  duckduckgo: {
+    minIntervalMs: parseInt(process.env.SEARCH_MIN_INTERVAL_MS || '3000'),
+    maxConcurrent: parseInt(process.env.SEARCH_MAX_CONCURRENT || '2')
+  },
+  brave: {
+    minIntervalMs: parseInt(process.env.BRAVE_MIN_INTERVAL_MS || '1000'),
+    maxConcurrent: parseInt(process.env.BRAVE_MAX_CONCURRENT || '1')
+  },
+  dataforseo: {
+    minIntervalMs: parseInt(process.env.DATAFORSEO_MIN_INTERVAL_MS || '200'),
+    maxConcurrent: parseInt(process.env.DATAFORSEO_MAX_CONCURRENT || '5')
+  },
+  gemini: {
+    minIntervalMs: parseInt(process.env.GEMINI_MIN_INTERVAL_MS || '500'),
+    maxConcurrent: parseInt(process.env.GEMINI_MAX_CONCURRENT || '4')
+  }
+}
+
+export class RateLimiter {
+  private nextStartAt = 0
+  private active = 0
+  private readonly waiting: Array<() => void> = []
+
+  constructor(private readonly config: RateLimitConfig) {}
+
+  /**
+   * 間隔・同時実行数の枠が空くまで待って実行
+   */
+  async schedule<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire()
+    try {
+      return await fn()
+    } finally {
+      this.release()
+    }
+  }
+
+  getStats(): { active: number, waiting: number } {
+    return { active: this.active, waiting: this.waiting.length }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active >= this.config.maxConcurrent) {
+      // 枠は release から直接引き継ぐ（active は引き継ぎ側で減らさない）
+      await new Promise<void>(resolve => this.waiting.push(resolve))
+    } else {
+      this.active++
+    }
+
+    // 開始時刻を予約してから待つ（同時に呼ばれても間隔が空く）
+    const startAt = Math.max(Date.now(), this.nextStartAt)
+    this.nextStartAt = startAt + this.config.minIntervalMs
+    const delay = startAt - Date.now()
+    if (delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+
+  private release(): void {
+    // 待機中があれば枠を空けずに渡す（再開までの間に新しい acquire が割り込まない）
+    const next = this.waiting.shift()
+    if (next) next()
+    else this.active--
+  }
+}
+
+const limiters = new Map<RateLimitedProvider, RateLimiter>()
+
+/**
+ * プロバイダごとの共有リミッター（同一プロセス内の全バッチで共有）
+ */
+export function rateLimiterFor(provider: RateLimitedProvider): RateLimiter {
+  let limiter = limiters.get(provider)
+  if (!limiter) {
+    limiter = new RateLimiter(PROVIDER_RATE_LIMITS[provider])
+    limiters.set(provider, limiter)
+  }
+  return limiter
+}
@@ -0,0 +1,234 @@
+/**
+ * Replay Recorder
+ * 企業1社分の通信（検索結果・取得ページ・API応答・AI応答）の記録と、記録からのネットワークなしの再実行
+ */
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { AsyncLocalStorage } from 'async_hooks'
+import type { BrowserContext } from 'playwright'
+import { TraceStore } from './processingTrace'
+
+export type ReplayMode = 'record' | 'replay'
+
+export interface ReplayOptions {
+  mode: ReplayMode
+  // 再実行する記録（未指定時はその企業の最新の記録）
+  recordingId?: string
+}
+
+export interface RecordedExchange {
+  kind: string          // 'llm:<purpose>' / 'brave' / 'dataforseo' 等
+  requestHash: string
+  request: string       // 確認用（先頭のみ）
+  response?: unknown
+  error?: string
+  at: string
+}
+
+export interface RecordingMeta {
+  recordingId: string
+  key: string
+  corporateNumber?: string
+  companyName: string
+  campaignId?: string
+  recordedAt: string
+  // 記録時の結果（再実行結果との比較用）
+  result?: {
+    processed: boolean
+    confidence?: number
+    phoneNumber?: string
+    email?: string
+    website?: string
+    error?: string
+  }
+  exchanges: number
+}
+
+export class RecordingNotFoundError extends Error {
+  constructor(key: string, recordingId?: string) {
+    super(`Recording not found: ${key}${recordingId ? `/${recordingId}` : ''}`)
+    this.name = 'RecordingNotFoundError'
+  }
+}
+
+// 再実行中に記録にない通信が発生した（処理内容の変更で呼び出しが増えた等）
+export class ReplayMissError extends Error {
+  constructor(readonly kind: string, readonly requestHash: string) {
+    super(`No recorded response for ${kind} (${requestHash.substring(0, 8)})`)
+    this.name = 'ReplayMissError'
+  }
+}
+
+const MAX_REQUEST_CHARS = 500
+const HAR_FILE = 'network.har'
+const EXCHANGES_FILE = 'exchanges.json'
+const META_FILE = 'meta.json'
+
+export class ReplayRecording {
+  private readonly cursors = new Map<string, number>()
+  misses = 0
+
+  constructor(
+    readonly mode: ReplayMode,
+    readonly dir: string,
+    readonly meta: RecordingMeta,
+    private readonly exchanges: RecordedExchange[] = []
+  ) {}
+
+  get harPath(): string {
+    return path.join(this.dir, HAR_FILE)
+  }
+
+  /**
+   * ブラウザ通信の記録・再生（HARはコンテキストを閉じた時点で書き出される）
+   */
+  async attach(context: BrowserContext): Promise<void> {
+    if (this.mode === 'record') {
+      await context.routeFromHAR(this.harPath, { update: true, updateContent: 'embed', updateMode: 'minimal' })
+    } else {
+      // 記録にないリクエストは外部へ出さずに中断
+      await context.routeFromHAR(this.harPath, { notFound: 'abort' })
+    }
+  }
+
+  /**
+   * ブラウザ以外の通信（AI・検索API）の記録・再生
+   * 同じリクエストが複数回ある場合は記録順に返す
+   */
+  async exchange<T>(kind: string, request: string, call: () => Promise<T>): Promise<T> {
+    const requestHash = crypto.createHash('sha1').update(request).digest('hex')
+
+    if (this.mode === 'record') {
+      const entry: RecordedExchange = { kind, requestHash, request: request.substring(0, MAX_REQUEST_CHARS), at: new Date().toISOString() }
+      this.exchanges.push(entry)
+      try {
+        entry.response = await call()
+        return entry.response as T
+      } catch (error) {
+        entry.error = error instanceof Error ? error.message : String(error)
+        throw error
+      }
+    }
+
+    const cursorKey = `${kind}:${requestHash}`
+    const index = this.cursors.get(cursorKey) ?? 0
+    const entry = this.exchanges.filter(e => e.kind === kind && e.requestHash === requestHash)[index]
+    if (!entry) {
+      this.misses++
+      throw new ReplayMissError(kind, requestHash)
+    }
+    this.cursors.set(cursorKey, index + 1)
+    if (entry.error !== undefined) throw new Error(entry.error)
+    return entry.response as T
+  }
+
+  /**
+   * 記録の書き出し（再実行時は何もしない）
+   */
+  async finish(result: RecordingMeta['result']): Promise<void> {
+    if (this.mode !== 'record') return
+    this.meta.result = result
+    this.meta.exchanges = this.exchanges.length
+    await fs.promises.writeFile(path.join(this.dir, EXCHANGES_FILE), JSON.stringify(this.exchanges, null, 2))
+    await fs.promises.writeFile(path.join(this.dir, META_FILE), JSON.stringify(this.meta, null, 2))
+  }
+}
+
+const DEFAULT_RECORDING_DIR = path.join(process.cwd(), 'data', 'recordings')
+
+/**
+ * 企業ごとの記録（data/recordings/<キー>/<記録ID>/、キーはトレースと同じ）
+ */
+export class RecordingStore {
+  constructor(private readonly dir: string = DEFAULT_RECORDING_DIR) {}
+
+  /**
+   * 記録の開始、または既存の記録を再実行用に読み込み
+   */
+  async open(company: { corporateNumber?: string, companyName: string, campaignId?: string }, options: ReplayOptions): Promise<ReplayRecording> {
+    const key = TraceStore.keyFor(company)
+
+    if (options.mode === 'record') {
+      const recordedAt = new Date()
+      const recordingId = `${recordedAt.toISOString().replace(/[-:.]/g, '').substring(0, 15)}-${crypto.randomUUID().substring(0, 8)}`
+      const dir = this.recordingDir(key, recordingId)
+      await fs.promises.mkdir(dir, { recursive: true })
+      return new ReplayRecording('record', dir, {
+        recordingId,
+        key,
+        corporateNumber: company.corporateNumber,
+        companyName: company.companyName,
+        campaignId: company.campaignId,
+        recordedAt: recordedAt.toISOString(),
+        exchanges: 0
+      })
+    }
+
+    const meta = options.recordingId
+      ? await this.get(key, options.recordingId)
+      : (await this.list(key))[0] ?? null
+    if (!meta) throw new RecordingNotFoundError(key, options.recordingId)
+
+    const dir = this.recordingDir(key, meta.recordingId)
+    const exchanges: RecordedExchange[] = JSON.parse(await fs.promises.readFile(path.join(dir, EXCHANGES_FILE), 'utf8'))
+    return new ReplayRecording('replay', dir, meta, exchanges)
+  }
+
+  /**
+   * 企業の記録一覧（新しい順、書き出しが完了したもののみ）
+   */
+  async list(key: string): Promise<RecordingMeta[]> {
+    const companyDir = this.recordingDir(key)
+    if (!fs.existsSync(companyDir)) return []
+
+    const metas: RecordingMeta[] = []
+    for (const recordingId of await fs.promises.readdir(companyDir)) {
+      const meta = await this.get(key, recordingId)
+      if (meta) metas.push(meta)
+    }
+    return metas.sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))
+  }
+
+  async get(key: string, recordingId: string): Promise<RecordingMeta | null> {
+    const metaPath = path.join(this.recordingDir(key, recordingId), META_FILE)
+    if (!fs.existsSync(metaPath)) return null
+    return JSON.parse(await fs.promises.readFile(metaPath, 'utf8'))
+  }
+
+  private recordingDir(key: string, recordingId?: string): string {
+    if (!/^[\w-]+$/.test(key) || (recordingId !== undefined && !/^[\w-]+$/.test(recordingId))) {
+      throw new Error(`Invalid recording key: ${key}${recordingId ? `/${recordingId}` : ''}`)
+    }
+    return recordingId ? path.join(this.dir, key, recordingId) : path.join(this.dir, key)
+  }
+}
+
+const recordingStorage = new AsyncLocalStorage<ReplayRecording>()
+
+/**
+ * 記録・再実行中に処理を実行（非同期処理の中でも currentRecording() で参照できる）
+ */
+export function runWithRecording<T>(recording: ReplayRecording, fn: () => Promise<T>): Promise<T> {
+  return recordingStorage.run(recording, fn)
+}
+
+export function currentRecording(): ReplayRecording | undefined {
+  return recordingStorage.getStore()
+}
+
+/**
+ * 記録・再実行中なら通信を記録経由にする（それ以外はそのまま実行）
+ */
+export function replayable<T>(kind: string, request: string, call: () => Promise<T>): Promise<T> {
+  const recording = currentRecording()
+  return recording ? recording.exchange(kind, request, call) : call()
+}
+
+/**
+ * 再実行中か（レート制限の待機を省略する等）
+ */
+export function isReplaying(): boolean {
+  return currentRecording()?.mode === 'replay'
+}
@@ -0,0 +1,212 @@
+/**
+ * Search Cache
+ * 検索結果のローカル保存（プロバイダ・正規化したクエリ・オプションをキーに、有効期限内は再検索しない）
+ */
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { currentRecording } from './replayRecorder'
+
+export interface SearchCacheEntry<T = unknown> {
+  provider: string
+  query: string
+  options: Record<string, unknown>
+  storedAt: string
+  expiresAt: string
+  response: T
+}
+
+export interface SearchCacheCounts {
+  hits: number
+  misses: number   // 未保存・期限切れ（期限切れは expired にも計上）
+  expired: number
+  writes: number
+}
+
+export interface SearchCacheStats extends SearchCacheCounts {
+  hitRate: number
+  byProvider: Record<string, SearchCacheCounts>
+}
+
+const DEFAULT_CACHE_DIR = path.join(process.cwd(), 'data', 'search-cache')
+const DEFAULT_TTL_HOURS = parseFloat(process.env.SEARCH_CACHE_TTL_HOURS || '168')
+
+/**
+ * プロバイダごとの有効期限（SEARCH_CACHE_TTL_HOURS_<PROVIDER> → SEARCH_CACHE_TTL_HOURS → 7日、0で保存しない）
+ */
+export function searchCacheTtlMs(provider: string): number {
+  const override = process.env[`SEARCH_CACHE_TTL_HOURS_${provider.toUpperCase()}`]
+  const hours = override !== undefined ? parseFloat(override) : DEFAULT_TTL_HOURS
+  return Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 * 1000 : 0
+}
+
+/**
+ * キー用のクエリ正規化（全角・半角の統一、前後・連続空白の除去）
+ * 大文字小文字は OR 等の演算子の意味が変わるため区別する
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query.normalize('NFKC').replace(/\s+/g, ' ').trim()
+}
+
+export class SearchCache {
+  private readonly counts = new Map<string, SearchCacheCounts>()
+
+  constructor(private readonly dir: string = DEFAULT_CACHE_DIR) {}
+
+  /**
+   * 有効期限内の保存結果を返し、なければ検索して保存（shouldStore が false の結果は保存しない）
+   * 通信の記録・再実行中は記録を完結させるため使わない
+   */
+  async getOrFetch<T>(
+    provider: string,
+    query: string,
+    options: object,
+    fetch: () => Promise<T>,
+    policy: { ttlMs?: number, shouldStore?: (response: T) => boolean } = {}
+  ): Promise<T> {
+    const ttlMs = policy.ttlMs ?? searchCacheTtlMs(provider)
+    if (ttlMs <= 0 || currentRecording()) return fetch()
+
+    const normalizedOptions = sortKeys(options)
+    const filePath = this.filePath(provider, this.keyFor(provider, query, normalizedOptions))
+    const cached = await this.read<T>(filePath)
+    const counts = this.countsFor(provider)
+
+    if (cached && Date.parse(cached.expiresAt) > Date.now()) {
+      counts.hits++
+      return cached.response
+    }
+    counts.misses++
+    if (cached) counts.expired++
+
+    const response = await fetch()
+    if (policy.shouldStore && !policy.shouldStore(response)) return response
+    const now = new Date()
+    const entry: SearchCacheEntry<T> = {
+      provider,
+      query,
+      options: normalizedOptions,
+      storedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttlMs).toISOString(),
+      response
+    }
+    try {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.promises.writeFile(filePath, JSON.stringify(entry))
+      counts.writes++
+    } catch (error) {
+      console.warn('⚠️ 検索キャッシュ保存エラー (処理は続行):', error instanceof Error ? error.message : error)
+    }
+    return response
+  }
+
+  keyFor(provider: string, query: string, options: object = {}): string {
+    return crypto.createHash('sha1')
+      .update(JSON.stringify([provider, normalizeSearchQuery(query), sortKeys(options)]))
+      .digest('hex')
+  }
+
+  /**
+   * このプロセスでのヒット・ミス件数
+   */
+  getStats(): SearchCacheStats {
+    const total: SearchCacheCounts = { hits: 0, misses: 0, expired: 0, writes: 0 }
+    const byProvider: Record<string, SearchCacheCounts> = {}
+    for (const [provider, counts] of this.counts) {
+      byProvider[provider] = { ...counts }
+      total.hits += counts.hits
+      total.misses += counts.misses
+      total.expired += counts.expired
+      total.writes += counts.writes
+    }
+    const lookups = total.hits + total.misses
+    return { ...total, hitRate: lookups > 0 ? Math.round(total.hits / lookups * 1000) / 10 : 0, byProvider }
+  }
+
+  /**
+   * 保存件数（プロバイダ別、期限切れを含む）
+   */
+  async countEntries(): Promise<Record<string, { entries: number, expired: number }>> {
+    const result: Record<string, { entries: number, expired: number }> = {}
+    for (const { provider, filePath } of await this.entryFiles()) {
+      const entry = await this.read(filePath)
+      result[provider] ??= { entries: 0, expired: 0 }
+      result[provider].entries++
+      if (!entry || Date.parse(entry.expiresAt) <= Date.now()) result[provider].expired++
+    }
+    return result
+  }
+
+  /**
+   * 期限切れの削除（all指定時はすべて削除）
+   */
+  async purge(options: { all?: boolean, provider?: string } = {}): Promise<number> {
+    let removed = 0
+    for (const { provider, filePath } of await this.entryFiles()) {
+      if (options.provider && provider !== options.provider) continue
+      const entry = options.all ? null : await this.read(filePath)
+      if (options.all || !entry || Date.parse(entry.expiresAt) <= Date.now()) {
+        await fs.promises.unlink(filePath)
+        removed++
+      }
+    }
+    return removed
+  }
+
+  private countsFor(provider: string): SearchCacheCounts {
+    let counts = this.counts.get(provider)
+    if (!counts) {
+      counts = { hits: 0, misses: 0, expired: 0, writes: 0 }
+      this.counts.set(provider, counts)
+    }
+    return counts
+  }
+
+  private async read<T>(filePath: string): Promise<SearchCacheEntry<T> | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+    } catch {
+      // 未保存・書き込み途中の壊れたファイルは未保存扱い
+      return null
+    }
+  }
+
+  private async entryFiles(): Promise<Array<{ provider: string, filePath: string }>> {
+    if (!fs.existsSync(this.dir)) return []
+    const files: Array<{ provider: string, filePath: string }> = []
+    for (const provider of await fs.promises.readdir(this.dir)) {
+      const providerDir = path.join(this.dir, provider)
+      if (!(await fs.promises.stat(providerDir)).isDirectory()) continue
+      for (const file of await fs.promises.readdir(providerDir)) {
+        if (file.endsWith('.json')) files.push({ provider, filePath: path.join(providerDir, file) })
+      }
+    }
+    return files
+  }
+
+  private filePath(provider: string, key: string): string {
+    if (!/^[\w-]+$/.test(provider)) {
+      throw new Error(`Invalid search cache provider: ${provider}`)
+    }
+    return path.join(this.dir, provider, `${key}.json`)
+  }
+}
+
+function sortKeys(options: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(options)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+  )
+}
+
+let sharedCache: SearchCache | null = null
+
+/**
+ * プロセス内で共有するキャッシュ（ヒット・ミス件数を全検索で集計）
+ */
+export function searchCache(): SearchCache {
+  sharedCache ??= new SearchCache()
+  return sharedCache
+}
@@ -0,0 +1,317 @@
+/**
+ * Search Providers
+ * 検索バックエンド（DuckDuckGo・Brave・DataForSEO）を共通の結果型で扱い、設定した順に切り替えて検索する
+ */
+
+import type { Page } from 'playwright'
+import { BraveApiError, BraveSearchTool } from './braveSearchTool'
+import { BudgetExceededError, budgetManager, isBudgetPause } from './budgetManager'
+import { DataForSeoApiError, DataForSeoService } from './dataForSeoService'
+import { currentTrace } from './processingTrace'
+import { rateLimiterFor } from './rateLimiter'
+import { isReplaying } from './replayRecorder'
+import { searchCache } from './searchCache'
+import { CancelledError, throwIfCancelled } from './workerPool'
+
+export type SearchProviderName = 'duckduckgo' | 'brave' | 'dataforseo'
+
+export const SEARCH_PROVIDER_NAMES: SearchProviderName[] = ['duckduckgo', 'brave', 'dataforseo']
+
+export interface WebSearchResult {
+  url: string
+  title: string
+  snippet: string
+  rank: number        // 1始まりの掲載順
+}
+
+export interface WebSearchResponse {
+  provider: SearchProviderName
+  query: string
+  results: WebSearchResult[]
+}
+
+export interface WebSearchOptions {
+  count?: number      // 取得件数の上限（既定10）
+}
+
+export interface SearchProvider {
+  readonly name: SearchProviderName
+  search(query: string, options?: WebSearchOptions): Promise<WebSearchResponse>
+}
+
+// 次のプロバイダへ切り替える理由
+export type SearchFailureReason =
+  | 'rate-limited'   // レート制限（429等）
+  | 'blocked'        // ボット判定・アクセス拒否
+  | 'over-budget'    // プロバイダ側の残高・プランの上限
+  | 'budget-limit'   // 予算設定の上限（fallback: このクエリだけ次のプロバイダへ）
+  | 'unavailable'    // 認証情報なし・認証エラー
+  | 'failed'         // 通信エラー等
+
+export class SearchProviderError extends Error {
+  constructor(readonly provider: SearchProviderName, readonly reason: SearchFailureReason, message: string) {
+    super(`${provider}: ${message}`)
+    this.name = 'SearchProviderError'
+  }
+}
+
+// すべてのプロバイダが失敗・待機中
+export class SearchUnavailableError extends Error {
+  constructor(readonly query: string, readonly failures: SearchProviderError[]) {
+    super(`All search providers failed for "${query}": ${failures.map(failure => `${failure.provider}(${failure.reason})`).join(', ') || 'none configured'}`)
+    this.name = 'SearchUnavailableError'
+  }
+}
+
+const DEFAULT_ORDER: SearchProviderName[] = ['duckduckgo', 'brave', 'dataforseo']
+const DEFAULT_COUNT = 10
+
+// 失敗したプロバイダを使わない期間（通信エラーは一時的なものとして待機しない）
+const COOLDOWN_MS: Record<SearchFailureReason, number> = {
+  'rate-limited': 60 * 1000,
+  blocked: 10 * 60 * 1000,
+  'over-budget': 60 * 60 * 1000,
+  // キャンペーン別・全体の上限は他のキャンペーンや上限の変更に影響させないため待機しない
+  'budget-limit': 0,
+  unavailable: 60 * 60 * 1000,
+  failed: 0
+}
+
+// 並列ワーカー間で共有（あるワーカーでブロックされたら他のワーカーも切り替える）
+const cooldowns = new Map<SearchProviderName, { until: number, reason: SearchFailureReason }>()
+
+const PAGE_LOAD_TIMEOUT_MS = 15000
+const SEARCH_RESULT_TIMEOUT_MS = 5000
+
+/**
+ * Playwright で DuckDuckGo を検索（未保存のクエリは企業ごとのページを検索結果ページへ遷移させる）
+ */
+export class DuckDuckGoSearchProvider implements SearchProvider {
+  readonly name = 'duckduckgo' as const
+
+  constructor(private readonly page: Page) {}
+
+  async search(query: string, options: WebSearchOptions = {}): Promise<WebSearchResponse> {
+    const count = options.count ?? DEFAULT_COUNT
+    // 保存結果がある場合はページを遷移させない（呼び出し側は結果のURLを直接開く）
+    // 結果なしは表示待ちの打ち切りと区別できないため保存しない
+    return searchCache().getOrFetch(this.name, query, { count }, () => this.fetch(query, count), {
+      shouldStore: response => response.results.length > 0
+    })
+  }
+
+  private async fetch(query: string, count: number): Promise<WebSearchResponse> {
+    const run = async () => {
+      await this.page.goto('https://duckduckgo.com/', { timeout: PAGE_LOAD_TIMEOUT_MS })
+      await this.page.fill('input[name="q"]', query)
+      await this.page.press('input[name="q"]', 'Enter')
+      // 固定待機ではなく検索結果の表示を待つ（結果なしの場合は上限まで）
+      await this.page.waitForSelector('a[data-testid="result-title-a"]', { timeout: SEARCH_RESULT_TIMEOUT_MS }).catch(() => undefined)
+    }
+
+    try {
+      // 再実行時は記録した応答を返すだけなのでレート制限の待機・予算への計上は不要
+      await (isReplaying() ? run() : rateLimiterFor('duckduckgo').schedule(() => budgetManager().charge(this.name, run)))
+    } catch (error) {
+      throw toProviderError(this.name, error)
+    }
+
+    const content = await this.page.content().catch(() => '')
+    if (/anomaly-modal|bots use DuckDuckGo too/i.test(content)) {
+      throw new SearchProviderError(this.name, 'blocked', 'bot detection page')
+    }
+
+    const results = await this.page.evaluate(() => {
+      const items: Array<{ url: string, title: string, snippet: string }> = []
+      document.querySelectorAll('a[data-testid="result-title-a"]').forEach(link => {
+        const article = link.closest('article')
+        items.push({
+          url: (link as HTMLAnchorElement).href,
+          title: link.textContent || '',
+          snippet: article?.querySelector('[data-result="snippet"]')?.textContent || ''
+        })
+      })
+      return items
+    }).catch(() => [])
+
+    return {
+      provider: this.name,
+      query,
+      results: results.slice(0, count).map((result, i) => ({ ...result, rank: i + 1 }))
+    }
+  }
+}
+
+/**
+ * Brave Search API
+ */
+export class BraveSearchProvider implements SearchProvider {
+  readonly name = 'brave' as const
+  private tool?: BraveSearchTool
+
+  static isConfigured(): boolean {
+    return Boolean(process.env.BRAVE_API_KEY)
+  }
+
+  async search(query: string, options: WebSearchOptions = {}): Promise<WebSearchResponse> {
+    try {
+      this.tool ??= new BraveSearchTool()
+      // キャッシュ・記録・レート制限・予算は BraveSearchTool 側で適用
+      const response = await this.tool.search(query, { count: options.count ?? DEFAULT_COUNT })
+      return {
+        provider: this.name,
+        query,
+        results: response.results.map((result, i) => ({ url: result.url, title: result.title, snippet: result.description, rank: i + 1 }))
+      }
+    } catch (error) {
+      throw toProviderError(this.name, error, error instanceof BraveApiError ? error.status : undefined)
+    }
+  }
+}
+
+/**
+ * DataForSEO SERP API（Google検索結果）
+ */
+export class DataForSeoSearchProvider implements SearchProvider {
+  readonly name = 'dataforseo' as const
+  private service?: DataForSeoService
+
+  static isConfigured(): boolean {
+    return Boolean(process.env.DATAFORSEO_USERNAME && process.env.DATAFORSEO_PASSWORD)
+  }
+
+  async search(query: string, options: WebSearchOptions = {}): Promise<WebSearchResponse> {
+    try {
+      this.service ??= new DataForSeoService()
+      // キャッシュ・記録・レート制限・予算は DataForSeoService 側で適用
+      const results = await this.service.searchSerp(query, options.count ?? DEFAULT_COUNT)
+      return {
+        provider: this.name,
+        query,
+        results: results.map((result, i) => ({ url: result.url, title: result.title, snippet: result.description, rank: i + 1 }))
+      }
+    } catch (error) {
+      throw toProviderError(this.name, error, error instanceof DataForSeoApiError ? error.status : undefined)
+    }
+  }
+}
+
+/**
+ * 設定順にプロバイダを試し、レート制限・ブロック・予算超過・通信エラーなら次のプロバイダで検索
+ * 待機（cooldown）はプロバイダ側の制限（429・402等）のみ。予算設定の pause は呼び出し元へ投げる
+ */
+export class SearchChain {
+  constructor(private readonly providers: SearchProvider[]) {}
+
+  get providerNames(): SearchProviderName[] {
+    return this.providers.map(provider => provider.name)
+  }
+
+  async search(query: string, options: WebSearchOptions = {}): Promise<WebSearchResponse> {
+    const failures: SearchProviderError[] = []
+
+    for (const provider of this.providers) {
+      // 上限時間で中断された企業では有料プロバイダへ切り替えず打ち切る
+      throwIfCancelled()
+      const cooldown = cooldowns.get(provider.name)
+      if (cooldown && cooldown.until > Date.now()) {
+        failures.push(new SearchProviderError(provider.name, cooldown.reason, `cooling down until ${new Date(cooldown.until).toISOString()}`))
+        continue
+      }
+
+      const startedAt = Date.now()
+      try {
+        const response = await provider.search(query, options)
+        cooldowns.delete(provider.name)
+        currentTrace()?.record({
+          type: 'search',
+          provider: provider.name,
+          query,
+          resultUrls: response.results.map(result => result.url),
+          durationMs: Date.now() - startedAt
+        })
+        return response
+      } catch (error) {
+        if (error instanceof CancelledError) throw error
+        const failure = toProviderError(provider.name, error)
+        // 予算上限の一時停止は切り替えず企業ごと止める（上限の変更後に再開）
+        if (failure instanceof BudgetExceededError) throw failure
+        failures.push(failure)
+        if (COOLDOWN_MS[failure.reason] > 0) {
+          cooldowns.set(provider.name, { until: Date.now() + COOLDOWN_MS[failure.reason], reason: failure.reason })
+        }
+        console.warn(`⚠️ 検索プロバイダ切り替え: ${failure.message} (${failure.reason})`)
+        currentTrace()?.record({
+          type: 'search',
+          provider: provider.name,
+          query,
+          error: `${failure.reason}: ${failure.message}`,
+          durationMs: Date.now() - startedAt
+        })
+      }
+    }
+
+    throw new SearchUnavailableError(query, failures)
+  }
+}
+
+/**
+ * 検索順の解釈（カンマ区切り・配列、未知のプロバイダ名はエラー）
+ */
+export function parseSearchProviderOrder(value: unknown): SearchProviderName[] {
+  const names = (Array.isArray(value) ? value : String(value ?? '').split(','))
+    .map(name => String(name).trim().toLowerCase())
+    .filter(Boolean)
+  for (const name of names) {
+    if (!SEARCH_PROVIDER_NAMES.includes(name as SearchProviderName)) {
+      throw new Error(`Unknown search provider: ${name}. Use: ${SEARCH_PROVIDER_NAMES.join(', ')}`)
+    }
+  }
+  return [...new Set(names as SearchProviderName[])]
+}
+
+/**
+ * 検索順（指定 → 環境変数 SEARCH_PROVIDERS → 既定）に従ったチェーンを作成
+ * DuckDuckGo はブラウザのページ、Brave・DataForSEO は認証情報がある場合のみ含める
+ */
+export function createSearchChain(options: { page?: Page, order?: SearchProviderName[] } = {}): SearchChain {
+  const order = options.order?.length
+    ? options.order
+    : process.env.SEARCH_PROVIDERS ? parseSearchProviderOrder(process.env.SEARCH_PROVIDERS) : DEFAULT_ORDER
+
+  const providers: SearchProvider[] = []
+  for (const name of order) {
+    if (name === 'duckduckgo' && options.page) providers.push(new DuckDuckGoSearchProvider(options.page))
+    if (name === 'brave' && BraveSearchProvider.isConfigured()) providers.push(new BraveSearchProvider())
+    if (name === 'dataforseo' && DataForSeoSearchProvider.isConfigured()) providers.push(new DataForSeoSearchProvider())
+  }
+  return new SearchChain(providers)
+}
+
+/**
+ * 検索結果をAI判定・企業名カウント用のテキストへ
+ */
+export function searchResultsText(response: WebSearchResponse): string {
+  return response.results.map(result => `${result.title}\n${result.url}\n${result.snippet}`).join('\n\n')
+}
+
+/**
+ * 切り替え理由付きのエラーへ変換（予算上限の一時停止はプロバイダの失敗にせずそのまま返す）
+ */
+function toProviderError(provider: SearchProviderName, error: unknown, status?: number): SearchProviderError | BudgetExceededError {
+  if (error instanceof SearchProviderError) return error
+  if (isBudgetPause(error)) return error
+  if (error instanceof BudgetExceededError) return new SearchProviderError(provider, 'budget-limit', error.message)
+  const message = error instanceof Error ? error.message : String(error)
+  return new SearchProviderError(provider, failureReason(status, message), message)
+}
+
+// HTTPステータス・DataForSEOのタスクステータスコードから切り替え理由を判定
+function failureReason(status: number | undefined, message: string): SearchFailureReason {
+  if (status === 429 || status === 40202 || status === 40209) return 'rate-limited'
+  if (status === 402 || status === 40200 || status === 40210) return 'over-budget'
+  if (status === 401 || status === 40100 || status === 40101) return 'unavailable'
+  if (status === 403) return 'blocked'
+  if (/credentials are required|API_KEY environment variable is required/i.test(message)) return 'unavailable'
+  return 'failed'
+}
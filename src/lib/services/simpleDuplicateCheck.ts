@@ -4,6 +4,7 @@
  */
 
 import { GoogleSheetsService, SalesListItem } from '../googleSheets';
+import { addressKey, normalizeAddress } from './addressNormalizer';
 
 export class SimpleDuplicateCheck {
   private memoryCache = new Map<string, boolean>();
@@ -77,7 +78,7 @@ export class SimpleDuplicateCheck {
   }
 
   /**
-   * Simple key generation with minimal normalization
+   * Simple key generation with company/address normalization
    */
   private createSimpleKey(company: string, location: string): string {
     // 企業名正規化（最小限）
@@ -87,12 +88,9 @@ export class SimpleDuplicateCheck {
       .toLowerCase()
       .trim();
       
-    // 地域正規化（最小限）
-    const cleanLocation = (location || '')
-      .replace(/[都道府県市区町村]/g, '')
-      .replace(/\s+/g, '')
-      .toLowerCase()
-      .trim();
+    // 地域正規化（市区町村単位。全角数字・〒・番地表記の違いを吸収）
+    const cleanLocation = addressKey(normalizeAddress(location || ''))
+      .toLowerCase();
       
     return `${cleanCompany}__${cleanLocation}`;
   }
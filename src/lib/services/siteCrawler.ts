@@ -0,0 +1,195 @@
+/**
+ * Site Crawler
+ * 公式サイト内の会社概要・お問い合わせ・特定商取引法に基づく表記などのページを、深さ・ページ数を制限して巡回する
+ */
+
+import type { Page } from 'playwright'
+import { currentTrace } from './processingTrace'
+
+export interface CrawlOptions {
+  maxDepth?: number    // 開始ページからのリンク段数（既定: 2）
+  maxPages?: number    // 取得するページ数の上限（開始ページを含む、既定: 6）
+  timeoutMs?: number   // 1ページの読み込み上限
+}
+
+export interface CrawledPage {
+  url: string
+  title: string
+  anchorText: string   // 遷移元のリンクテキスト（開始ページは空）
+  depth: number
+  score: number
+  html: string
+}
+
+interface RankedLink {
+  url: string
+  text: string
+  score: number
+}
+
+// リンクテキストの優先度（連絡先・所在地が載りやすいページほど高い）
+const ANCHOR_KEYWORDS: Array<[RegExp, number]> = [
+  [/特定商取引法|特商法/, 10],
+  [/会社概要|企業概要|会社情報|企業情報/, 9],
+  [/お問い?合わせ|お問合せ|問い合わせ|コンタクト|contact/i, 9],
+  [/会社案内|事業所|拠点|店舗情報|営業所/, 7],
+  [/アクセス|所在地|地図|access/i, 6],
+  [/会社紹介|私たちについて|about/i, 5],
+  [/運営会社|運営者情報/, 5],
+  [/プライバシー|個人情報|privacy/i, 3]
+]
+
+// URLパスの優先度（リンクテキストが画像などで空の場合の補助）
+const PATH_KEYWORDS: Array<[RegExp, number]> = [
+  [/tokusho|tokutei|law|legal|commerce/i, 6],
+  [/company|corporate|profile|gaiyou|gaiyo|outline|overview/i, 6],
+  [/contact|inquiry|toiawase|otoiawase|form/i, 6],
+  [/access|map|office|location/i, 4],
+  [/about/i, 4],
+  [/privacy|policy/i, 2]
+]
+
+// 連絡先を含まないリンク
+const EXCLUDED_PATH = /\.(pdf|jpe?g|png|gif|svg|webp|zip|docx?|xlsx?|pptx?|mp4|mp3)$|\/(wp-admin|wp-login|login|cart|recruit|blog|news|topics)\b/i
+
+const DEFAULT_MAX_DEPTH = 2
+const DEFAULT_MAX_PAGES = 6
+const DEFAULT_TIMEOUT_MS = 15000
+
+/**
+ * リンクのスコア（リンクテキスト・URLパス）
+ */
+export function scoreLink(text: string, url: string): number {
+  const normalizedText = text.replace(/\s+/g, '')
+  const anchorScore = ANCHOR_KEYWORDS.reduce((max, [pattern, score]) => pattern.test(normalizedText) ? Math.max(max, score) : max, 0)
+
+  let pathScore = 0
+  try {
+    const pathname = new URL(url).pathname
+    pathScore = PATH_KEYWORDS.reduce((max, [pattern, score]) => pattern.test(pathname) ? Math.max(max, score) : max, 0)
+  } catch {
+    return 0
+  }
+  return anchorScore + pathScore
+}
+
+/**
+ * 同一サイトか（www. の有無は同一扱い）
+ */
+export function isSameSite(url: string, baseUrl: string): boolean {
+  try {
+    const host = new URL(url).hostname.replace(/^www\./, '')
+    const baseHost = new URL(baseUrl).hostname.replace(/^www\./, '')
+    return host === baseHost
+  } catch {
+    return false
+  }
+}
+
+/**
+ * サイト内リンクを優先度順に並べる（スコア0・除外パス・他サイトは対象外）
+ */
+export function rankLinks(links: Array<{ href: string, text: string }>, baseUrl: string): RankedLink[] {
+  const ranked = new Map<string, RankedLink>()
+  for (const link of links) {
+    if (!/^https?:/i.test(link.href) || !isSameSite(link.href, baseUrl)) continue
+
+    const url = canonicalUrl(link.href)
+    if (EXCLUDED_PATH.test(new URL(url).pathname)) continue
+
+    const score = scoreLink(link.text, url)
+    if (score <= 0) continue
+
+    // 同じURLへの複数リンクは最も高いスコアを採用
+    const existing = ranked.get(url)
+    if (!existing || existing.score < score) {
+      ranked.set(url, { url, text: link.text.trim(), score })
+    }
+  }
+  return [...ranked.values()].sort((a, b) => b.score - a.score)
+}
+
+/**
+ * 開始ページから同一サイト内を優先度の高いリンク順に巡回（取得ページはスコア順で返す）
+ */
+export async function crawlSite(page: Page, startUrl: string, options: CrawlOptions = {}): Promise<CrawledPage[]> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES
+  const timeout = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+
+  const visited = new Set<string>()
+  const queued = new Set<string>([canonicalUrl(startUrl)])
+  const frontier: Array<RankedLink & { depth: number }> = [
+    { url: canonicalUrl(startUrl), text: '', score: scoreLink('', startUrl), depth: 0 }
+  ]
+  const pages: CrawledPage[] = []
+
+  while (frontier.length > 0 && pages.length < maxPages) {
+    // 深さに関わらずスコアの高いリンクから
+    frontier.sort((a, b) => b.score - a.score)
+    const next = frontier.shift()!
+    if (visited.has(next.url)) continue
+    visited.add(next.url)
+
+    const startedAt = Date.now()
+    try {
+      if (canonicalUrl(page.url()) !== next.url) {
+        await page.goto(next.url, { timeout, waitUntil: 'domcontentloaded' })
+      }
+      // リダイレクトで他サイトへ出た場合は対象外
+      if (!isSameSite(page.url(), startUrl)) continue
+
+      const html = await page.content()
+      const title = await page.title()
+      pages.push({ url: page.url(), title, anchorText: next.text, depth: next.depth, score: next.score, html })
+      currentTrace()?.record({
+        type: 'visit',
+        url: page.url(),
+        title,
+        passed: true,
+        detail: { crawlDepth: next.depth, score: next.score, anchorText: next.text },
+        durationMs: Date.now() - startedAt
+      })
+
+      if (next.depth >= maxDepth) continue
+
+      const links = await page.evaluate(() =>
+        Array.from(document.querySelectorAll('a[href]')).map(a => ({
+          href: (a as HTMLAnchorElement).href,
+          text: (a.textContent || a.getAttribute('title') || a.querySelector('img')?.getAttribute('alt') || '').trim()
+        }))
+      )
+      for (const link of rankLinks(links, startUrl)) {
+        if (queued.has(link.url)) continue
+        queued.add(link.url)
+        frontier.push({ ...link, depth: next.depth + 1 })
+      }
+    } catch (error) {
+      console.log(`サイト巡回失敗: ${next.url} ${error}`)
+      currentTrace()?.record({
+        type: 'visit',
+        url: next.url,
+        passed: false,
+        error: error instanceof Error ? error.message : String(error),
+        durationMs: Date.now() - startedAt
+      })
+    }
+  }
+
+  console.log(`🕸️ サイト巡回: ${pages.length}ページ (${pages.map(p => p.anchorText || p.url).join(', ')})`)
+  return pages.sort((a, b) => b.score - a.score)
+}
+
+/**
+ * 比較用URL（フラグメント除去・末尾スラッシュ統一）
+ */
+function canonicalUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    parsed.hash = ''
+    if (parsed.pathname.length > 1) parsed.pathname = parsed.pathname.replace(/\/+$/, '')
+    return parsed.toString()
+  } catch {
+    return url
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Site Ownership
+ * 公式サイト候補が登記上の法人のものかを確認（法人番号・適格請求書発行事業者登録番号・所在地・商号）
+ */
+
+import { CorporateRecord } from './corporateCsvLoader'
+import { AddressMatch, NormalizedAddress, PREFECTURES, compareAddresses, normalizeAddress, normalizeRecordAddress } from './addressNormalizer'
+import { extractContactDeterministic } from './contactExtractor'
+
+export type OwnershipSignalName = 'corporateNumber' | 'invoiceNumber' | 'address' | 'legalName'
+
+export interface OwnershipSignal {
+  signal: OwnershipSignalName
+  result: 'match' | 'mismatch'
+  score: number        // 加点（不一致は減点）
+  found: string        // ページ上の値
+  url: string
+}
+
+export interface SiteOwnership {
+  verdict: 'confirmed' | 'likely' | 'unknown' | 'rejected'
+  score: number
+  signals: OwnershipSignal[]
+}
+
+export interface RegistryIdentity {
+  corporateNumber?: string
+  legalName: string
+  address: NormalizedAddress
+}
+
+// 判定の配点（番号の一致は本人確認として強い根拠）
+const SIGNAL_SCORES = {
+  corporateNumber: 50,
+  invoiceNumber: 50,
+  address: { block: 30, town: 30, municipality: 20 } as Partial<Record<AddressMatch['level'], number>>,
+  addressMismatch: -30,
+  legalNameExact: 20,
+  legalName: 15,
+  legalNameMismatch: -40,
+  numberMismatch: -50
+}
+
+const CONFIRMED_SCORE = 50
+const LIKELY_SCORE = 20
+
+// 法人格（略記 → 正式表記）
+const ENTITY_ABBREVIATIONS: Array<[RegExp, string]> = [
+  [/\(株\)|㈱/g, '株式会社'],
+  [/\(有\)|㈲/g, '有限会社'],
+  [/\(同\)/g, '合同会社'],
+  [/\(資\)/g, '合資会社'],
+  [/\(名\)/g, '合名会社'],
+  [/\(一社\)/g, '一般社団法人'],
+  [/\(一財\)/g, '一般財団法人'],
+  [/\(医\)/g, '医療法人'],
+  [/\(福\)/g, '社会福祉法人'],
+  [/NPO法人/g, '特定非営利活動法人']
+]
+
+const ENTITY_TYPES = [
+  '株式会社', '有限会社', '合同会社', '合資会社', '合名会社',
+  '一般社団法人', '一般財団法人', '公益社団法人', '公益財団法人',
+  '医療法人社団', '医療法人財団', '医療法人', '社会福祉法人', '特定非営利活動法人',
+  '学校法人', '宗教法人', '協同組合'
+]
+const ENTITY_PATTERN = new RegExp(ENTITY_TYPES.join('|'))
+
+const LABELED_ADDRESS = new RegExp(
+  `(?:〒\\s*\\d{3}-?\\d{4}|所在地|本社|本店|住所)\\s*[:：]?\\s*((?:${Object.values(PREFECTURES).join('|')})[^\\s、。|｜,]{2,40})`,
+  'g'
+)
+
+/**
+ * 法人レコードから照合用の登記情報
+ */
+export function registryIdentity(record: CorporateRecord, address?: NormalizedAddress): RegistryIdentity {
+  return {
+    corporateNumber: record.corporateNumber || record.法人番号,
+    legalName: record.corporateName || record.法人名 || '',
+    address: address ?? normalizeRecordAddress(record)
+  }
+}
+
+/**
+ * 商号の正規化（NFKC・空白除去・法人格の略記を正式表記へ）
+ */
+export function normalizeLegalName(name: string): string {
+  let normalized = name.normalize('NFKC').replace(/[\s　]/g, '')
+  for (const [pattern, entity] of ENTITY_ABBREVIATIONS) {
+    normalized = normalized.replace(pattern, entity)
+  }
+  return normalized
+}
+
+/**
+ * 商号を法人格・法人格の位置（前株/後株）・名称部分に分解
+ */
+export function splitLegalName(name: string): { entityType?: string, position?: 'prefix' | 'suffix', base: string } {
+  const normalized = normalizeLegalName(name)
+  const match = normalized.match(ENTITY_PATTERN)
+  if (!match) return { base: normalized }
+  const position = match.index === 0 ? 'prefix' : 'suffix'
+  return { entityType: match[0], position, base: normalized.replace(match[0], '') }
+}
+
+/**
+ * 巡回したページと登記情報の照合
+ * 番号・所在地・商号のいずれかが一致すれば加点、一致がなく不一致のみなら別法人のサイトとして除外
+ */
+export function verifySiteOwnership(pages: Array<{ url: string, html: string }>, registry: RegistryIdentity): SiteOwnership {
+  const signals: OwnershipSignal[] = []
+  for (const signal of [
+    matchCorporateNumber(pages, registry),
+    matchInvoiceNumber(pages, registry),
+    matchAddress(pages, registry),
+    matchLegalName(pages, registry)
+  ]) {
+    if (signal) signals.push(signal)
+  }
+
+  const score = signals.reduce((sum, signal) => sum + signal.score, 0)
+  const verdict = score < 0 ? 'rejected'
+    : score >= CONFIRMED_SCORE ? 'confirmed'
+      : score >= LIKELY_SCORE ? 'likely'
+        : 'unknown'
+  return { verdict, score, signals }
+}
+
+/**
+ * 確認結果に応じた信頼度の加点
+ */
+export function ownershipConfidenceBonus(ownership: SiteOwnership): number {
+  if (ownership.verdict === 'confirmed') return 15
+  if (ownership.verdict === 'likely') return 5
+  return 0
+}
+
+function matchCorporateNumber(pages: Array<{ url: string, html: string }>, registry: RegistryIdentity): OwnershipSignal | null {
+  if (!registry.corporateNumber) return null
+  let mismatch: OwnershipSignal | null = null
+  for (const page of pages) {
+    const text = pageText(page.html)
+    if (text.replace(/[-\s]/g, '').includes(registry.corporateNumber) && !text.includes(`T${registry.corporateNumber}`)) {
+      return { signal: 'corporateNumber', result: 'match', score: SIGNAL_SCORES.corporateNumber, found: registry.corporateNumber, url: page.url }
+    }
+    const labeled = text.match(/法人番号\s*[:：]?\s*(\d{13})/)
+    if (labeled && !mismatch) {
+      mismatch = { signal: 'corporateNumber', result: 'mismatch', score: SIGNAL_SCORES.numberMismatch, found: labeled[1], url: page.url }
+    }
+  }
+  return mismatch
+}
+
+function matchInvoiceNumber(pages: Array<{ url: string, html: string }>, registry: RegistryIdentity): OwnershipSignal | null {
+  if (!registry.corporateNumber) return null
+  let mismatch: OwnershipSignal | null = null
+  for (const page of pages) {
+    const numbers = [...pageText(page.html).matchAll(/T\s*-?\s*(\d{13})(?!\d)/g)].map(match => match[1])
+    if (numbers.includes(registry.corporateNumber)) {
+      return { signal: 'invoiceNumber', result: 'match', score: SIGNAL_SCORES.invoiceNumber, found: `T${registry.corporateNumber}`, url: page.url }
+    }
+    if (numbers.length > 0 && !mismatch) {
+      mismatch = { signal: 'invoiceNumber', result: 'mismatch', score: SIGNAL_SCORES.numberMismatch, found: `T${numbers[0]}`, url: page.url }
+    }
+  }
+  return mismatch
+}
+
+function matchAddress(pages: Array<{ url: string, html: string }>, registry: RegistryIdentity): OwnershipSignal | null {
+  let best: { match: AddressMatch, found: string, url: string } | null = null
+  for (const page of pages) {
+    const text = pageText(page.html)
+    const addresses = [
+      extractContactDeterministic(page.html).fields.address,
+      ...[...text.matchAll(LABELED_ADDRESS)].map(match => match[1])
+    ].filter((address): address is string => Boolean(address))
+
+    for (const address of addresses) {
+      const match = compareAddresses(normalizeAddress(address), registry.address)
+      if (match.level === 'unknown') continue
+      if (!best || match.score > best.match.score) best = { match, found: address, url: page.url }
+    }
+  }
+  if (!best) return null
+
+  const score = SIGNAL_SCORES.address[best.match.level]
+  if (score) return { signal: 'address', result: 'match', score, found: best.found, url: best.url }
+  // 都道府県のみ一致は根拠にしない
+  if (best.match.level === 'prefecture') return null
+  return { signal: 'address', result: 'mismatch', score: SIGNAL_SCORES.addressMismatch, found: best.found, url: best.url }
+}
+
+function matchLegalName(pages: Array<{ url: string, html: string }>, registry: RegistryIdentity): OwnershipSignal | null {
+  const expected = splitLegalName(registry.legalName)
+  if (!expected.entityType || expected.base.length < 2) return null
+
+  let sameType: OwnershipSignal | null = null
+  let otherType: OwnershipSignal | null = null
+  for (const page of pages) {
+    const text = normalizeLegalName(pageText(page.html))
+    let index = text.indexOf(expected.base)
+    while (index >= 0) {
+      const before = text.substring(Math.max(0, index - 10), index)
+      const after = text.substring(index + expected.base.length, index + expected.base.length + 10)
+      const prefixType = ENTITY_TYPES.find(type => before.endsWith(type))
+      const suffixType = ENTITY_TYPES.find(type => after.startsWith(type))
+      const found = prefixType ? `${prefixType}${expected.base}` : suffixType ? `${expected.base}${suffixType}` : undefined
+
+      if (found && (prefixType ?? suffixType) === expected.entityType) {
+        const exact = expected.position === (prefixType ? 'prefix' : 'suffix')
+        if (exact) {
+          return { signal: 'legalName', result: 'match', score: SIGNAL_SCORES.legalNameExact, found, url: page.url }
+        }
+        sameType ??= { signal: 'legalName', result: 'match', score: SIGNAL_SCORES.legalName, found, url: page.url }
+      } else if (found) {
+        otherType ??= { signal: 'legalName', result: 'mismatch', score: SIGNAL_SCORES.legalNameMismatch, found, url: page.url }
+      }
+      index = text.indexOf(expected.base, index + expected.base.length)
+    }
+  }
+  return sameType ?? otherType
+}
+
+function pageText(html: string): string {
+  return html
+    .replace(/<script(?![^>]*ld\+json)[\s\S]*?<\/script>/gi, '')
+    .replace(/<style[\s\S]*?<\/style>/gi, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .normalize('NFKC')
+    .replace(/\s+/g, ' ')
+}
@@ -0,0 +1,171 @@
+/**
+ * Successor Resolver
+ * 合併・閉鎖法人の承継先法人番号をたどり、存続法人へ付け替える
+ */
+
+import fs from 'fs'
+import path from 'path'
+import { writeFileAtomic } from './atomicFile'
+import type { CorporateRecord } from './corporateCsvLoader'
+import { CorporateMasterStore, MasterChange } from './corporateMasterStore'
+
+// 登記記録の閉鎖等の事由
+export const CLOSE_CAUSES: Record<string, string> = {
+  '01': '清算の結了等',
+  '11': '合併による解散等',
+  '21': '登記官による閉鎖',
+  '31': 'その他の清算の結了等'
+}
+
+const MAX_CHAIN_DEPTH = 10
+
+export type SuccessorStatus =
+  | 'resolved'              // 存続法人へ付け替え済み
+  | 'no-successor'          // 承継先なしの閉鎖
+  | 'successor-missing'     // 承継先がマスタに存在しない
+  | 'successor-closed'      // 承継先も承継先なしで閉鎖
+  | 'cycle'                 // 承継先が循環している
+
+export interface SuccessorResolution {
+  originalCorporateNumber: string
+  originalName?: string
+  resolvedCorporateNumber?: string
+  resolvedName?: string
+  chain: string[]
+  closeDate?: string
+  closeCause?: string
+  status: SuccessorStatus
+}
+
+interface EnrichedEntry {
+  enrichedAt: string
+  corporateName?: string
+  viaCorporateNumber?: string
+}
+
+const DEFAULT_LEDGER_FILE = path.join(process.cwd(), 'data', 'enriched_companies.json')
+// 法人マスタの変更ログの読み取り位置（API の取り出しとは別に進める）
+const ENRICHMENT_CONSUMER = 'enrichment'
+
+export class SuccessorResolver {
+  private ledger: Promise<Record<string, EnrichedEntry>> | null = null
+  private ledgerWrite: Promise<void> = Promise.resolve()
+
+  constructor(
+    private readonly master: CorporateMasterStore = new CorporateMasterStore(),
+    private readonly ledgerFile: string = DEFAULT_LEDGER_FILE
+  ) {}
+
+  /**
+   * 閉鎖法人なら承継先チェーンをたどって存続法人を返す
+   * 法人マスタに差分適用済みの登記情報があればCSVの値より優先する（CSV取得後の商号変更・閉鎖を反映）
+   */
+  async resolve(input: CorporateRecord): Promise<{ record: CorporateRecord, resolution: SuccessorResolution | null }> {
+    const latest = input.corporateNumber ? await this.master.get(input.corporateNumber) : null
+    const record = latest ? { ...input, ...latest } : input
+    if (!record.closeDate || !record.corporateNumber) {
+      return { record, resolution: null }
+    }
+
+    const resolution: SuccessorResolution = {
+      originalCorporateNumber: record.corporateNumber,
+      originalName: record.corporateName,
+      chain: [record.corporateNumber],
+      closeDate: record.closeDate,
+      closeCause: record.closeCause ? CLOSE_CAUSES[record.closeCause] || record.closeCause : undefined,
+      status: 'no-successor'
+    }
+
+    let current = record
+    while (current.closeDate) {
+      const successorNumber = current.successorCorporateNumber
+      if (!successorNumber) {
+        resolution.status = current === record ? 'no-successor' : 'successor-closed'
+        return { record, resolution }
+      }
+      if (resolution.chain.includes(successorNumber) || resolution.chain.length > MAX_CHAIN_DEPTH) {
+        resolution.status = 'cycle'
+        return { record, resolution }
+      }
+
+      resolution.chain.push(successorNumber)
+      const successor = await this.master.get(successorNumber)
+      if (!successor) {
+        resolution.status = 'successor-missing'
+        resolution.resolvedCorporateNumber = successorNumber
+        return { record, resolution }
+      }
+      current = successor
+    }
+
+    resolution.status = 'resolved'
+    resolution.resolvedCorporateNumber = current.corporateNumber
+    resolution.resolvedName = current.corporateName
+    console.log(`🔀 承継先へ付け替え: ${record.corporateName} → ${current.corporateName} (${resolution.chain.join(' → ')})`)
+    return { record: current, resolution }
+  }
+
+  /**
+   * 前回以降に商号・所在地が変わった法人をエンリッチ済み台帳から外し、次の処理で連絡先を取り直す
+   * 閉鎖は resolve で法人マスタの登記情報から判定する
+   * 新規法人はデータセットのCSVに含まれないため処理対象にはならない（/api/corporate-master?types=new で取得）
+   */
+  async syncMasterChanges(): Promise<MasterChange[]> {
+    const changes = await this.master.consumeChanges(['renamed', 'relocated'], ENRICHMENT_CONSUMER)
+    if (changes.length === 0) return changes
+
+    const ledger = await this.loadLedger()
+    const stale = changes.filter(change => change.corporateNumber in ledger)
+    for (const change of stale) delete ledger[change.corporateNumber]
+    if (stale.length > 0) {
+      console.log(`🔄 商号・所在地変更の法人を再エンリッチ対象に: ${stale.length}件`)
+      await this.saveLedger(ledger)
+    }
+    return changes
+  }
+
+  /**
+   * エンリッチ済みの法人番号か
+   */
+  async isEnriched(corporateNumber?: string): Promise<boolean> {
+    if (!corporateNumber) return false
+    const ledger = await this.loadLedger()
+    return corporateNumber in ledger
+  }
+
+  /**
+   * エンリッチ済みとして記録（旧法人番号も同じ企業として記録）
+   */
+  async markEnriched(record: CorporateRecord, resolution?: SuccessorResolution | null): Promise<void> {
+    if (!record.corporateNumber) return
+
+    const ledger = await this.loadLedger()
+    const enrichedAt = new Date().toISOString()
+    ledger[record.corporateNumber] = { enrichedAt, corporateName: record.corporateName }
+
+    for (const corporateNumber of resolution?.chain ?? []) {
+      if (corporateNumber !== record.corporateNumber) {
+        ledger[corporateNumber] = { enrichedAt, corporateName: record.corporateName, viaCorporateNumber: record.corporateNumber }
+      }
+    }
+
+    await this.saveLedger(ledger)
+  }
+
+  private async saveLedger(ledger: Record<string, EnrichedEntry>): Promise<void> {
+    // 並列処理時に書き込みが交錯しないよう直列化
+    this.ledgerWrite = this.ledgerWrite.catch(() => undefined).then(async () => {
+      await writeFileAtomic(this.ledgerFile, JSON.stringify(ledger))
+    })
+    await this.ledgerWrite
+  }
+
+  private loadLedger(): Promise<Record<string, EnrichedEntry>> {
+    if (!this.ledger) {
+      this.ledger = fs.existsSync(this.ledgerFile)
+        ? fs.promises.readFile(this.ledgerFile, 'utf8').then(text => JSON.parse(text))
+        : Promise.resolve({})
+    }
+    return this.ledger
+  }
+}
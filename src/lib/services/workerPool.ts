@@ -0,0 +1,88 @@
+/**
+ * Worker Pool
+ * 同時実行数を制限した並列処理と処理単位のタイムアウト
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+
+export class TimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`)
+    this.name = 'TimeoutError'
+  }
+}
+
+// 上限時間を過ぎて中断された処理での呼び出し
+export class CancelledError extends Error {
+  constructor() {
+    super('Cancelled after timeout')
+    this.name = 'CancelledError'
+  }
+}
+
+/**
+ * 最大 concurrency 件ずつ並列に処理（結果は入力順）
+ * worker の例外は呼び出し側で結果に変換すること（1件の失敗で全体を止めない）
+ */
+export async function runWorkerPool<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number, workerId: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, async (_, workerId) => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await worker(items[index], index, workerId)
+    }
+  })
+
+  await Promise.all(workers)
+  return results
+}
+
+// 上限時間を過ぎた処理の終了を待つ上限（ブラウザを閉じれば通常はすぐ終わる）
+const SETTLE_GRACE_MS = 30000
+
+const cancellation = new AsyncLocalStorage<AbortSignal>()
+
+/**
+ * 上限時間を過ぎて中断された処理の中でも、以降の検索・AI呼び出しをしない
+ */
+export function throwIfCancelled(): void {
+  const signal = cancellation.getStore()
+  if (signal?.aborted) throw new CancelledError()
+}
+
+/**
+ * 指定時間内に終わらなければ TimeoutError（onTimeout で実行中の処理を中断する）
+ * 中断後は throwIfCancelled() が例外を投げ、処理が終わるまで待ってから返す（呼び出し側の同時実行数を超えない）
+ */
+export async function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, onTimeout?: () => void): Promise<T> {
+  const controller = new AbortController()
+  const promise = cancellation.run(controller.signal, () => run(controller.signal))
+  if (!timeoutMs || timeoutMs <= 0) return promise
+
+  let timer: NodeJS.Timeout | undefined
+  const timeout = new Promise<'timeout'>(resolve => {
+    timer = setTimeout(() => resolve('timeout'), timeoutMs)
+  })
+  try {
+    const settled = await Promise.race([promise.then(value => ({ value })), timeout])
+    if (settled !== 'timeout') return settled.value
+  } finally {
+    clearTimeout(timer)
+  }
+
+  controller.abort()
+  onTimeout?.()
+  let grace: NodeJS.Timeout | undefined
+  await Promise.race([
+    promise.catch(() => undefined),
+    new Promise(resolve => { grace = setTimeout(resolve, SETTLE_GRACE_MS) })
+  ])
+  clearTimeout(grace)
+  throw new TimeoutError(timeoutMs)
+}
@@ -0,0 +1,129 @@
+/**
+ * Zip Archive Reader
+ * 国税庁の配布zip展開用の最小zipリーダー（無圧縮・deflateのみ対応）
+ */
+
+import fs from 'fs'
+import zlib from 'zlib'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import * as iconv from 'iconv-lite'
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+const FLAG_ENCRYPTED = 0x0001
+const FLAG_UTF8 = 0x0800
+
+// 壊れた・途中で切れた・未対応のzip（アップロードされたファイル側の問題）
+export class ZipArchiveError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipArchiveError'
+  }
+}
+
+export interface ZipEntry {
+  name: string
+  method: number
+  compressedSize: number
+  size: number
+  localHeaderOffset: number
+  isDirectory: boolean
+}
+
+/**
+ * 中央ディレクトリからエントリ一覧を取得
+ */
+export function listZipEntries(archive: Buffer): ZipEntry[] {
+  const eocdOffset = findEndOfCentralDirectory(archive)
+  const entryCount = archive.readUInt16LE(eocdOffset + 10)
+  let offset = archive.readUInt32LE(eocdOffset + 16)
+
+  if (offset === 0xffffffff) {
+    throw new ZipArchiveError('ZIP64 archives are not supported')
+  }
+
+  const entries: ZipEntry[] = []
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > archive.length || archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new ZipArchiveError('Invalid zip archive: broken central directory')
+    }
+
+    const flags = archive.readUInt16LE(offset + 8)
+    const nameLength = archive.readUInt16LE(offset + 28)
+    const extraLength = archive.readUInt16LE(offset + 30)
+    const commentLength = archive.readUInt16LE(offset + 32)
+    const rawName = archive.subarray(offset + 46, offset + 46 + nameLength)
+    // UTF-8フラグがなければShift_JIS（日本語Windowsで作成されたzip）
+    const name = flags & FLAG_UTF8 ? rawName.toString('utf8') : iconv.decode(rawName, 'cp932')
+
+    if (flags & FLAG_ENCRYPTED) {
+      throw new ZipArchiveError(`Encrypted zip entries are not supported: ${name}`)
+    }
+
+    entries.push({
+      name,
+      method: archive.readUInt16LE(offset + 10),
+      compressedSize: archive.readUInt32LE(offset + 20),
+      size: archive.readUInt32LE(offset + 24),
+      localHeaderOffset: archive.readUInt32LE(offset + 42),
+      isDirectory: name.endsWith('/')
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+/**
+ * エントリをファイルへ展開（ストリームで書き出し、展開後の全体をメモリに載せない）
+ */
+export async function extractZipEntry(archive: Buffer, entry: ZipEntry, destPath: string): Promise<void> {
+  const header = entry.localHeaderOffset
+  if (header + 30 > archive.length || archive.readUInt32LE(header) !== LOCAL_FILE_HEADER) {
+    throw new ZipArchiveError(`Invalid zip archive: broken local header (${entry.name})`)
+  }
+
+  const dataStart = header + 30 + archive.readUInt16LE(header + 26) + archive.readUInt16LE(header + 28)
+  if (dataStart + entry.compressedSize > archive.length) {
+    throw new ZipArchiveError(`Invalid zip archive: truncated entry (${entry.name})`)
+  }
+  const data = archive.subarray(dataStart, dataStart + entry.compressedSize)
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      await fs.promises.writeFile(destPath, data)
+      break
+    case METHOD_DEFLATE:
+      try {
+        await pipeline(Readable.from([data]), zlib.createInflateRaw(), fs.createWriteStream(destPath))
+      } catch (error) {
+        // 展開途中のファイルは残さない
+        await fs.promises.unlink(destPath).catch(() => undefined)
+        // zlib のエラー（Z_DATA_ERROR・途中で切れたデータの Z_BUF_ERROR）は壊れたzipとして扱う
+        if ((error as NodeJS.ErrnoException).code?.startsWith('Z_')) {
+          throw new ZipArchiveError(`Invalid zip archive: corrupt data (${entry.name}): ${(error as Error).message}`)
+        }
+        throw error
+      }
+      break
+    default:
+      throw new ZipArchiveError(`Unsupported zip compression method ${entry.method}: ${entry.name}`)
+  }
+}
+
+function findEndOfCentralDirectory(archive: Buffer): number {
+  // EOCD(22バイト) + 最大65535バイトのコメント
+  if (archive.length < 22) throw new ZipArchiveError('Invalid zip archive: file too short')
+  const lowest = Math.max(0, archive.length - 22 - 0xffff)
+  for (let offset = archive.length - 22; offset >= lowest; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) return offset
+  }
+  throw new ZipArchiveError('Invalid zip archive: end of central directory not found')
+}